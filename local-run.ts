@@ -4,6 +4,7 @@ import * as github from "@actions/github";
 import * as dotenv from "dotenv";
 import { ClaudeService } from "./src/services/claude";
 import { FileAnalyzerService } from "./src/services/file-analyzer";
+import { FilePrioritizerService } from "./src/services/file-prioritizer";
 import { GitHubService } from "./src/services/github";
 import type {
 	FileChange,
@@ -12,6 +13,7 @@ import type {
 	ReviewComment,
 	ReviewContext,
 	ReviewOptions,
+	SkippedFile,
 	StructuredReview,
 } from "./src/types";
 
@@ -214,7 +216,7 @@ class LocalGitHubService extends GitHubService {
 		}
 	}
 
-	// Override getFilesFromCommit to use local owner/repo
+	// Lists the files changed in a single commit, for simulated synchronize events
 	async getFilesFromCommit(commitSha: string): Promise<FileChange[]> {
 		core.info(`Fetching files changed in commit ${commitSha}...`);
 		try {
@@ -252,7 +254,10 @@ class LocalGitHubService extends GitHubService {
 	}
 
 	// Override prepareReviewContext to fully replicate base logic using local owner/repo
-	async prepareReviewContext(maxFiles: number): Promise<ReviewContext> {
+	async prepareReviewContext(
+		maxFiles: number,
+		projectType: ProjectType = "auto",
+	): Promise<ReviewContext> {
 		// Fetch PR details using the overridden method
 		const pr = await this.getPullRequestDetails();
 		let files: FileChange[] = [];
@@ -274,12 +279,23 @@ class LocalGitHubService extends GitHubService {
 			files = await this.getChangedFiles(pr.number);
 		}
 
-		// Limit number of files to analyze
-		if (files.length > maxFiles) {
+		// Limit number of files to analyze, keeping the riskiest ones
+		let skippedFiles: SkippedFile[] = [];
+		if (maxFiles > 0 && files.length > maxFiles) {
 			core.warning(
 				`Limiting analysis to ${maxFiles} files out of ${files.length} changed files`,
 			);
-			files = files.slice(0, maxFiles);
+			const prioritizer = new FilePrioritizerService(
+				this.octokit,
+				{ owner: this.ownerName, repo: this.repoName },
+				projectType,
+			);
+			const { selected, skipped } = await prioritizer.prioritize(
+				files,
+				maxFiles,
+			);
+			files = selected;
+			skippedFiles = skipped;
 		}
 
 		// Fetch full content for each file using the overridden method
@@ -310,6 +326,7 @@ class LocalGitHubService extends GitHubService {
 			baseRef: pr.base.ref,
 			files,
 			relatedFiles: {}, // Initialize relatedFiles
+			skippedFiles,
 		};
 
 		return context;
@@ -588,7 +605,7 @@ async function runLocal(): Promise<void> {
 			"node_modules/**,dist/**,build/**,*.min.js,*.test.*"
 		).split(",");
 		const findRelatedFiles = process.env.FIND_RELATED_FILES !== "false";
-		const maxFiles = Number.parseInt(process.env.MAX_FILES || "10", 10);
+		const maxFiles = Number.parseInt(process.env.MAX_FILES || "0", 10);
 		const model = process.env.MODEL || "claude-3-5-haiku-20241022";
 		const useRepomix = process.env.USE_REPOMIX !== "false";
 		const commentStdout = process.env.COMMENT_STDOUT === "true";
@@ -634,7 +651,10 @@ async function runLocal(): Promise<void> {
 
 		// Prepare review context
 		console.log("Preparing review context...");
-		const context = await githubService.prepareReviewContext(maxFiles);
+		const context = await githubService.prepareReviewContext(
+			maxFiles,
+			projectType,
+		);
 
 		// Find related files if enabled
 		if (options.findRelatedFiles) {
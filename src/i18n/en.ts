@@ -0,0 +1,131 @@
+import type { Messages } from "./index";
+
+export const en: Messages = {
+	languageName: "English",
+	prompt: {
+		introduction:
+			"# Code Review Mission\n\nYou are a senior developer with 10+ years of experience and an expert in thorough code reviews. Drawing on that experience, perform a rigorous and specific code review of the changes below.\n\n## Review Goals\n- Improve code quality and prevent bugs\n- Improve maintainability and extensibility\n- Encourage a consistent coding style and best practices\n- Strengthen system design and architecture\n- Provide educational feedback that helps developers grow",
+		reviewGuidelines:
+			"\n## Review Guidelines\n\n### Code Quality\n- **Readability:** Assess whether the code is clear and intuitive. Identify complex logic or excessive nesting.\n- **Maintainability:** Review modularity, reusability and cohesion. Identify unnecessary duplication.\n- **Extensibility:** Assess whether the code can adapt to future requirement changes.\n\n### Technical Aspects\n- **Performance:** Identify inefficient algorithms, unnecessary computation and memory/resource waste.\n- **Security:** Identify potential vulnerabilities such as SQL injection, XSS and unsafe data handling.\n- **Error handling:** Assess exception handling, error recovery and the adequacy of user feedback.\n- **Concurrency:** Review thread safety, concurrency issues and potential deadlocks.\n\n### Coding Standards\n- **Naming:** Check that variables, functions and classes are named clearly and consistently.\n- **Code style:** Check consistent indentation, spacing and bracket usage according to the style guide.\n- **Comments:** Check that comments exist where needed and that there are no excessive or unnecessary comments.\n\n### Architecture and Design\n- **Design patterns:** Review the use of appropriate design patterns and the avoidance of unnecessary complexity.\n- **Dependencies:** Assess dependencies and coupling between components and the use of dependency injection.\n- **Separation of concerns:** Check adherence to the single responsibility principle and cohesive component structure.\n\n### Testability\n- **Ease of testing:** Assess whether the code is written to be unit-testable.\n- **Test coverage:** Identify where tests are needed for edge cases, exception paths and core business logic.",
+		reviewFormat:
+			"\n## Review Format\n\n### 1. Summary\n[A concise 3-5 line summary of the changes, including an overall quality assessment and the main strengths and improvements.]\n\n### 2. Positive Aspects\n1. [Notable good implementation/improvement]\n   - [Specific explanation and code example]\n2. [Another positive aspect]\n   - [Details]\n3. [Additional positive aspect]\n   - [Details]\n\n### 3. Key Improvements Needed\n1. [Issue title: severity (high/medium/low)]\n   - **Problem:** [Clear description of the problem]\n   - **Impact:** [Potential impact on the codebase or application]\n   - **Solution:** [Specific improvement]\n   ```\n   // Improved code example\n   ```\n   - **References:** [Links to relevant documentation/best practices, if applicable]\n\n2. [Issue title: severity]\n   - **Problem:** [Description]\n   - **Impact:** [Description]\n   - **Solution:** [Description]\n   ```\n   // Code example\n   ```\n\n### 4. Refactoring Suggestions\n[Suggestions for larger refactorings or architectural changes. Explain the limits of the current implementation and propose a better approach.]\n\n### 5. Related File Impact Analysis\n[Analysis of the potential impact of the changes on other files or system components]\n\n### 6. Summary and Priorities\n[Summary and prioritization of the most important improvements, with a roadmap for future work]",
+		pullRequestHeading: "\n## Pull Request\n",
+		filesListHeading: "\n## Changed Files\n",
+		batchNote: (index, total) =>
+			`\nThis review covers batch ${index} of ${total} of a large pull request. Only comment on the files above. The following files are reviewed in other batches:\n`,
+		fileContentsHeading: "\n## Change Details\n",
+		diffLegend:
+			'The first number before each diff line is its line number in the old file (LEFT), the second its line number in the new file (RIGHT). Comment on added or unchanged lines with the new line number and side "RIGHT", and on removed lines (-) with the old line number and side "LEFT".',
+		removedFile: "Status: removed",
+		changedPart: "Changes",
+		fullContent: "Full content",
+		omittedLines: (from, to) => `... lines ${from}-${to} omitted ...`,
+		truncatedLines: (count) =>
+			`... ${count} lines omitted to fit the context window ...`,
+		userFeedbackHeading: "\n## Developer/Reviewer Feedback\n",
+		generalComments: "### General Comments\n",
+		fileComments: "### File Comments\n",
+		commentLine: (line) => `line ${line}`,
+		relatedFilesHeading: "\n## Related File Impact Analysis\n",
+		relatedFilesFor: (file) => `### Files that may be affected by ${file}\n`,
+		closingInstructions:
+			"\n## Response Format Guidelines\n\n" +
+			"### Language and Encoding\n" +
+			"- Do not use Unicode escapes (\\u) for non-Latin characters.\n" +
+			"- Use UTF-8 encoded characters as they are.\n" +
+			"- Escape only special or control characters.\n\n" +
+			"### Code Examples\n" +
+			"- Always provide code examples in code blocks with the appropriate syntax highlighting.\n" +
+			"- Showing the code before and after the change is more effective.\n\n" +
+			"### Key Principles\n" +
+			"- A code review aims to provide educational feedback, not just to point out problems.\n" +
+			"- Highlight positive aspects as well to keep the review balanced.\n" +
+			"- Prioritize the most important issues and mention minor problems briefly.\n" +
+			"- Provide specific improvements together with learning resources.",
+		userMessage:
+			"Review all of the provided changes and give a comprehensive yet concise code review. Focus on important issues and provide specific improvement suggestions with code examples. Also analyze the potential impact between the changed files and related files. You must respond in JSON using the specified format (only the summary and comments fields).",
+		toolUserMessage:
+			"Review all of the provided changes and give a comprehensive yet concise code review. Focus on important issues and provide specific improvement suggestions with code examples. Also analyze the potential impact between the changed files and related files. Submit the review by calling the submit_review tool.",
+		exampleSummary:
+			"The code is well written, but there are a few important issues:\\n\\n- Some function names are unclear\\n- Error handling needs improvement\\n- Performance issues",
+		exampleRenameComment: "Rename the function to make its purpose clearer:",
+		exampleErrorComment:
+			"Exception handling is missing. Add a try/catch block.",
+	},
+	review: {
+		overallAssessment: "Overall Assessment",
+		lineCommentsTitle: "Line Comments",
+		detailedComments: "Detailed Comments",
+		suggestedCode: "Suggested code",
+		additionalFindingsHeading: "Additional findings",
+		relocatedNote: (line) =>
+			`Moved here from line ${line}, which is not part of the diff.`,
+		duplicateCommentsNote: (count) =>
+			`${count} comments already posted in an earlier review were not posted again.`,
+		checkRunTitle: (count) => `Loxops code review: ${count} findings`,
+		threadResolvedNote: (commit) =>
+			`✅ Addressed in ${commit}, resolving this thread.`,
+		changesRequestDismissed: (commit) =>
+			`The review of ${commit} no longer requests changes.`,
+		previousReviews: (count) => `Previous reviews (${count})`,
+		historyEntry: (commit) => `Review of commit ${commit}`,
+		filteredCommentsNote: (total, shown, removed) =>
+			`Note: only ${shown} of ${total} key comments are shown. ${removed} lower-priority comments were filtered out.`,
+		batchHeading: (index, total, files) =>
+			`Batch ${index}/${total} (${files} files)`,
+		costLimitNote: (maxCost, files) =>
+			`The following ${files.length} files were not reviewed because the estimated cost would exceed the max-cost limit ($${maxCost}): ${files.join(", ")}`,
+		skippedFilesHeading: (count) => `Files not reviewed (${count})`,
+		skipReasons: {
+			generated: "generated code",
+			lockfile: "lockfile",
+			"low-priority": "ranked below the max-files limit",
+		},
+		riskScore: "risk score",
+		responseContinuedNote: (continuations) =>
+			`The response hit the output token limit and was continued ${continuations} times.`,
+		responseIncompleteNote: (continuations) =>
+			`The response still hit the output token limit after ${continuations} continuations, so this review may be incomplete.`,
+		errorSummaries: [
+			"Failed to parse the code review response",
+			"An error occurred while generating the Claude code review",
+			"Could not generate the code review due to an unknown error",
+		],
+	},
+	command: {
+		usage:
+			"Available commands:\n\n- `/loxops review [paths...]`: Review the pull request again, optionally only the files matching the given globs\n- `/loxops summary`: Post only an updated summary\n- `/loxops explain <file>:<line>`: Explain the code at the given line\n- `/loxops ignore <fingerprint>`: Resolve the finding with the given fingerprint, shown under each line comment as `loxops:…`, and stop reporting it",
+		explanationHeading: (location) => `Explanation of ${location}`,
+		findingIgnored: (user) => `🔕 Ignored at the request of @${user}.`,
+		findingNotFound: (fingerprint) =>
+			`No open Loxops comment has the fingerprint \`${fingerprint}\`.`,
+		findingAmbiguous: (fingerprint, count) =>
+			`${count} open Loxops comments have a fingerprint starting with \`${fingerprint}\`. Please give more of the fingerprint.`,
+	},
+	walkthrough: {
+		heading: "Walkthrough",
+		fileColumn: "File",
+		changeColumn: "Change",
+		summaryColumn: "Summary",
+		testingHeading: "Testing notes",
+		fileStatuses: {
+			added: "Added",
+			modified: "Modified",
+			removed: "Removed",
+			renamed: "Renamed",
+		},
+	},
+	trigger: {
+		skipNotice: (reason) => `Skipped the automatic review because ${reason}.`,
+		skipReasons: {
+			draft: () => "the pull request is a draft",
+			label: (label) => `of the \`${label}\` label`,
+			author: (author) => `pull requests by @${author} are not reviewed`,
+			bot: (author) => `it was opened by the bot @${author}`,
+			"base-branch": (branch) =>
+				`the base branch \`${branch}\` is not reviewed`,
+			"head-branch": (branch) => `the branch \`${branch}\` is not reviewed`,
+			size: (lines) => `it changes ${lines} lines, more than the limit`,
+		},
+	},
+};
@@ -0,0 +1,111 @@
+import type {
+	FileChange,
+	ReviewLanguage,
+	SkipReason,
+	TriggerSkipReason,
+} from "../types";
+import { en } from "./en";
+import { ja } from "./ja";
+import { ko } from "./ko";
+
+/**
+ * Text used in prompts and posted comments for a single review language
+ */
+export interface Messages {
+	// English name of the language, used to instruct the model
+	languageName: string;
+	prompt: {
+		introduction: string;
+		reviewGuidelines: string;
+		reviewFormat: string;
+		// Title and description of the pull request
+		pullRequestHeading: string;
+		filesListHeading: string;
+		batchNote: (index: number, total: number) => string;
+		fileContentsHeading: string;
+		// Explains the old/new line number columns added to each diff
+		diffLegend: string;
+		removedFile: string;
+		changedPart: string;
+		fullContent: string;
+		// Markers for content left out to fit the model's context window
+		omittedLines: (from: number, to: number) => string;
+		truncatedLines: (count: number) => string;
+		userFeedbackHeading: string;
+		generalComments: string;
+		fileComments: string;
+		commentLine: (line: number) => string;
+		relatedFilesHeading: string;
+		relatedFilesFor: (file: string) => string;
+		closingInstructions: string;
+		userMessage: string;
+		// Used instead of userMessage when the review is requested through tool use
+		toolUserMessage: string;
+		// Example texts are embedded in a JSON example, so newlines stay escaped as \n
+		exampleSummary: string;
+		exampleRenameComment: string;
+		exampleErrorComment: string;
+	};
+	review: {
+		overallAssessment: string;
+		lineCommentsTitle: string;
+		detailedComments: string;
+		// Heading for a suggested fix that could not be offered as a committable suggestion
+		suggestedCode: string;
+		// Comments that could not be placed on a line of the diff
+		additionalFindingsHeading: string;
+		relocatedNote: (line: number) => string;
+		duplicateCommentsNote: (count: number) => string;
+		checkRunTitle: (count: number) => string;
+		// Reply posted when a review thread is resolved automatically
+		threadResolvedNote: (commit: string) => string;
+		// Message of an earlier change request dismissed once a later review no longer requests changes
+		changesRequestDismissed: (commit: string) => string;
+		// Collapsed history of earlier assessments in the summary comment
+		previousReviews: (count: number) => string;
+		historyEntry: (commit: string) => string;
+		filteredCommentsNote: (
+			total: number,
+			shown: number,
+			removed: number,
+		) => string;
+		batchHeading: (index: number, total: number, files: number) => string;
+		costLimitNote: (maxCost: number, files: string[]) => string;
+		skippedFilesHeading: (count: number) => string;
+		skipReasons: Record<SkipReason, string>;
+		riskScore: string;
+		responseContinuedNote: (continuations: number) => string;
+		responseIncompleteNote: (continuations: number) => string;
+		errorSummaries: string[];
+	};
+	// Replies to /loxops commands posted in pull request comments
+	command: {
+		usage: string;
+		explanationHeading: (location: string) => string;
+		findingIgnored: (user: string) => string;
+		findingNotFound: (fingerprint: string) => string;
+		findingAmbiguous: (fingerprint: string, count: number) => string;
+	};
+	// Generated overview of the pull request
+	walkthrough: {
+		heading: string;
+		fileColumn: string;
+		changeColumn: string;
+		summaryColumn: string;
+		testingHeading: string;
+		fileStatuses: Record<FileChange["status"], string>;
+	};
+	// Notice posted when the trigger policy skips a pull request
+	trigger: {
+		skipNotice: (reason: string) => string;
+		skipReasons: Record<TriggerSkipReason, (detail: string) => string>;
+	};
+}
+
+const catalogs: Record<ReviewLanguage, Messages> = { ko, en, ja };
+
+export const REVIEW_LANGUAGES = Object.keys(catalogs) as ReviewLanguage[];
+
+export function getMessages(language: ReviewLanguage = "ko"): Messages {
+	return catalogs[language] ?? catalogs.ko;
+}
@@ -0,0 +1,133 @@
+import type { Messages } from "./index";
+
+export const ja: Messages = {
+	languageName: "Japanese",
+	prompt: {
+		introduction:
+			"# コードレビューの任務\n\nあなたは10年以上の経験を持つシニア開発者であり、深いコードレビューの専門家です。豊富な経験に基づき、以下の変更について徹底的かつ具体的なコードレビューを行ってください。\n\n## レビューの目標\n- コード品質の向上とバグの予防\n- 保守性と拡張性の改善\n- 一貫したコーディングスタイルとベストプラクティスの推奨\n- システム設計とアーキテクチャの強化\n- 開発者の成長を助ける教育的なフィードバックの提供",
+		reviewGuidelines:
+			"\n## レビューガイドライン\n\n### コード品質\n- **可読性:** コードが明確で直感的かを評価してください。複雑なロジックや過度なネストを特定してください。\n- **保守性:** モジュール化、再利用性、凝集度を確認してください。不要な重複コードを特定してください。\n- **拡張性:** 将来の要件変更に対応できるかを評価してください。\n\n### 技術的側面\n- **パフォーマンス:** 非効率なアルゴリズム、不要な演算、メモリ/リソースの無駄を特定してください。\n- **セキュリティ:** SQLインジェクション、XSS、安全でないデータ処理などの潜在的な脆弱性を特定してください。\n- **エラー処理:** 例外処理、エラー回復の仕組み、ユーザーへのフィードバックの適切さを評価してください。\n- **並行性:** スレッドセーフティ、並行性の問題、デッドロックの可能性を確認してください。\n\n### コーディング規約\n- **命名規則:** 変数、関数、クラスなどの名前が明確かつ一貫しているか確認してください。\n- **コードスタイル:** インデント、空白、括弧の使い方がスタイルガイドに沿って一貫しているか確認してください。\n- **コメント:** 必要な箇所に適切なコメントがあり、過剰または不要なコメントがないか確認してください。\n\n### アーキテクチャと設計\n- **設計パターン:** 適切なデザインパターンの使用と不要な複雑さの回避を確認してください。\n- **依存関係:** コンポーネント間の依存関係と結合度、依存性注入の活用を評価してください。\n- **責務の分離:** 単一責任の原則の遵守と凝集度の高いコンポーネント構成を確認してください。\n\n### テスト適合性\n- **テスト容易性:** コードが単体テストしやすく書かれているか評価してください。\n- **テスト範囲:** 境界条件、例外パス、コアビジネスロジックに対するテストの必要性を特定してください。",
+		reviewFormat:
+			"\n## レビュー形式\n\n### 1. 要約\n[変更内容の簡潔な3〜5行の要約。全体的な品質評価と主な長所・改善点を含めてください。]\n\n### 2. 良い点\n1. [注目すべき良い実装/改善点]\n   - [具体的な説明とコード例]\n2. [その他の良い点]\n   - [詳細な説明]\n3. [追加の良い点]\n   - [詳細な説明]\n\n### 3. 主な改善点\n1. [問題のタイトル: 重要度(高/中/低)]\n   - **問題:** [明確な問題の説明]\n   - **影響:** [コードベースやアプリケーションへの潜在的な影響]\n   - **解決策:** [具体的な改善方法]\n   ```\n   // 改善されたコード例\n   ```\n   - **参考資料:** [関連ドキュメント/ベストプラクティスへのリンク(該当する場合)]\n\n2. [問題のタイトル: 重要度]\n   - **問題:** [説明]\n   - **影響:** [説明]\n   - **解決策:** [説明]\n   ```\n   // コード例\n   ```\n\n### 4. リファクタリングの提案\n[より大規模なリファクタリングやアーキテクチャ変更の提案。現在の実装の限界を説明し、より良いアプローチを提案してください。]\n\n### 5. 関連ファイルへの影響分析\n[変更が他のファイルやシステムコンポーネントに与える潜在的な影響の分析]\n\n### 6. まとめと優先順位\n[最も重要な改善点のまとめと優先順位付け。今後の改善に向けたロードマップの提案]",
+		pullRequestHeading: "\n## プルリクエスト\n",
+		filesListHeading: "\n## 変更されたファイル一覧\n",
+		batchNote: (index, total) =>
+			`\nこのレビューは大規模なプルリクエストを分割した${total}個のバッチのうち${index}番目です。上記のファイルにのみコメントしてください。次のファイルは他のバッチでレビューされます:\n`,
+		fileContentsHeading: "\n## 変更内容の詳細\n",
+		diffLegend:
+			'各diff行の前の1つ目の数字は旧ファイルの行番号(LEFT)、2つ目の数字は新ファイルの行番号(RIGHT)です。追加または変更されていない行には新ファイルの行番号とside "RIGHT"で、削除された行(-)には旧ファイルの行番号とside "LEFT"でコメントしてください。',
+		removedFile: "状態: 削除",
+		changedPart: "変更箇所",
+		fullContent: "全体の内容",
+		omittedLines: (from, to) => `... ${from}-${to}行目を省略 ...`,
+		truncatedLines: (count) =>
+			`... コンテキストサイズの制限により${count}行を省略 ...`,
+		userFeedbackHeading: "\n## 開発者/レビュアーのフィードバック\n",
+		generalComments: "### 全般的なコメント\n",
+		fileComments: "### ファイルごとのコメント\n",
+		commentLine: (line) => `${line}行目`,
+		relatedFilesHeading: "\n## 関連ファイルへの影響分析\n",
+		relatedFilesFor: (file) =>
+			`### ${file} の変更により影響を受ける可能性のあるファイル\n`,
+		closingInstructions:
+			"\n## 応答形式のガイドライン\n\n" +
+			"### 言語とエンコーディング\n" +
+			"- 日本語などの非ラテン文字にUnicodeエスケープ(\\u)を使用しないでください。\n" +
+			"- UTF-8でエンコードされた文字をそのまま使用してください。\n" +
+			"- 特殊文字や制御文字のみをエスケープしてください。\n\n" +
+			"### コード例\n" +
+			"- コード例は常に適切な言語のシンタックスハイライト付きのコードブロックで提供してください。\n" +
+			"- 修正前と修正後のコードを併せて示すとより効果的です。\n\n" +
+			"### 重要な原則\n" +
+			"- コードレビューは単に問題を指摘するだけでなく、教育的なフィードバックを提供することを目的とします。\n" +
+			"- 良い点も強調して、バランスの取れたレビューを提供してください。\n" +
+			"- 最も重要な問題を優先し、些細な問題は簡潔に触れてください。\n" +
+			"- 具体的な改善方法と学習資料を併せて提供してください。",
+		userMessage:
+			"提供されたすべての変更を確認し、包括的かつ簡潔なコードレビューを提供してください。重要な問題に焦点を当て、コード例を含む具体的な改善提案を提供してください。変更されたファイルと関連ファイル間の潜在的な影響も分析してください。必ず指定された形式(summaryとcommentsフィールドのみを含む)のJSONで応答してください。",
+		toolUserMessage:
+			"提供されたすべての変更を確認し、包括的かつ簡潔なコードレビューを提供してください。重要な問題に焦点を当て、コード例を含む具体的な改善提案を提供してください。変更されたファイルと関連ファイル間の潜在的な影響も分析してください。レビュー結果は必ずsubmit_reviewツールを呼び出して提出してください。",
+		exampleSummary:
+			"コードはよく書かれていますが、いくつか重要な問題があります:\\n\\n- 一部の関数名が不明確\\n- エラー処理の改善が必要\\n- パフォーマンスの問題",
+		exampleRenameComment: "関数名をより明確に変更してください:",
+		exampleErrorComment:
+			"例外処理が不足しています。try/catchを追加してください。",
+	},
+	review: {
+		overallAssessment: "総合評価",
+		lineCommentsTitle: "行ごとのコメント",
+		detailedComments: "詳細コメント",
+		suggestedCode: "提案コード",
+		additionalFindingsHeading: "その他の指摘事項",
+		relocatedNote: (line) =>
+			`このコメントはdiffに含まれない${line}行目から移動されました。`,
+		duplicateCommentsNote: (count) =>
+			`以前のレビューで投稿済みの${count}件のコメントは再投稿しませんでした。`,
+		checkRunTitle: (count) => `Loxops コードレビュー: ${count}件の指摘事項`,
+		threadResolvedNote: (commit) =>
+			`✅ ${commit} で修正されたことを確認したため、このスレッドを解決済みにしました。`,
+		changesRequestDismissed: (commit) =>
+			`${commit} のレビューでは変更を要求する指摘がなくなりました。`,
+		previousReviews: (count) => `以前のレビュー (${count}件)`,
+		historyEntry: (commit) => `コミット ${commit} のレビュー`,
+		filteredCommentsNote: (total, shown, removed) =>
+			`注: ${total}件中${shown}件の主要なコメントのみ表示しています。優先度の低い${removed}件のコメントは除外されました。`,
+		batchHeading: (index, total, files) =>
+			`バッチ ${index}/${total} (${files}ファイル)`,
+		costLimitNote: (maxCost, files) =>
+			`推定コストがmax-costの上限($${maxCost})を超えるため、次の${files.length}個のファイルはレビューされませんでした: ${files.join(", ")}`,
+		skippedFilesHeading: (count) => `レビューされなかったファイル (${count}件)`,
+		skipReasons: {
+			generated: "自動生成されたコード",
+			lockfile: "ロックファイル",
+			"low-priority": "優先度が低くmax-filesの上限から除外",
+		},
+		riskScore: "リスクスコア",
+		responseContinuedNote: (continuations) =>
+			`応答が出力トークンの上限に達したため、${continuations}回続きを生成しました。`,
+		responseIncompleteNote: (continuations) =>
+			`${continuations}回続きを生成しても応答が出力トークンの上限に達したため、このレビューは不完全な可能性があります。`,
+		errorSummaries: [
+			"コードレビュー応答の解析に失敗しました",
+			"Claudeによるコードレビューの生成中にエラーが発生しました",
+			"不明なエラーによりコードレビューを生成できませんでした",
+		],
+	},
+	command: {
+		usage:
+			"利用できるコマンド:\n\n- `/loxops review [paths...]`: プルリクエストを再レビューします。パスパターンを指定すると一致するファイルのみをレビューします\n- `/loxops summary`: サマリーのみを更新します\n- `/loxops explain <file>:<line>`: 指定した行のコードを説明します\n- `/loxops ignore <fingerprint>`: 指定したフィンガープリント(各行コメントの下に `loxops:…` として表示)の指摘を解決済みにし、今後報告しません",
+		explanationHeading: (location) => `${location} の説明`,
+		findingIgnored: (user) => `🔕 @${user} さんのリクエストにより無視します。`,
+		findingNotFound: (fingerprint) =>
+			`フィンガープリントが \`${fingerprint}\` の未解決のLoxopsコメントはありません。`,
+		findingAmbiguous: (fingerprint, count) =>
+			`フィンガープリントが \`${fingerprint}\` で始まる未解決のLoxopsコメントが${count}件あります。フィンガープリントをもっと長く指定してください。`,
+	},
+	walkthrough: {
+		heading: "変更内容の概要",
+		fileColumn: "ファイル",
+		changeColumn: "変更",
+		summaryColumn: "概要",
+		testingHeading: "テストに関する注意点",
+		fileStatuses: {
+			added: "追加",
+			modified: "変更",
+			removed: "削除",
+			renamed: "名前変更",
+		},
+	},
+	trigger: {
+		skipNotice: (reason) => `${reason}自動レビューをスキップしました。`,
+		skipReasons: {
+			draft: () => "ドラフトのプルリクエストのため、",
+			label: (label) => `\`${label}\` ラベルが付いているため、`,
+			author: (author) => `@${author} のプルリクエストはレビュー対象外のため、`,
+			bot: (author) => `ボット(@${author})が作成したプルリクエストのため、`,
+			"base-branch": (branch) =>
+				`ベースブランチ \`${branch}\` はレビュー対象外のため、`,
+			"head-branch": (branch) =>
+				`ブランチ \`${branch}\` はレビュー対象外のため、`,
+			size: (lines) => `変更行数(${lines})が上限を超えているため、`,
+		},
+	},
+};
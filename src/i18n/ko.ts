@@ -0,0 +1,130 @@
+import type { Messages } from "./index";
+
+export const ko: Messages = {
+	languageName: "Korean",
+	prompt: {
+		introduction:
+			"# 코드 리뷰 임무\n\n당신은 10+ 경력의 시니어 개발자이며 깊이 있는 코드 리뷰 전문가입니다. 풍부한 경험을 바탕으로 아래 변경사항에 대해 철저하고 구체적인 코드 리뷰를 수행해주세요.\n\n## 리뷰 목표\n- 코드 품질 향상 및 버그 예방\n- 유지보수성과 확장성 개선\n- 일관된 코딩 스타일과 모범 사례 권장\n- 시스템 설계 및 아키텍처 강화\n- 개발자 성장을 돕는 교육적 피드백 제공",
+		reviewGuidelines:
+			"\n## 리뷰 지침\n\n### 코드 품질\n- **가독성:** 코드가 명확하고 직관적인지 평가. 복잡한 로직이나 과도한 중첩 구조 식별.\n- **유지보수성:** 코드의 모듈화, 재사용성, 응집도를 검토. 불필요한 중복 코드 식별.\n- **확장성:** 코드가 미래 요구사항 변화에 대응할 수 있는지 평가.\n\n### 기술적 측면\n- **성능:** 비효율적인 알고리즘, 불필요한 연산, 메모리/리소스 낭비 식별.\n- **보안:** 잠재적 보안 취약점, SQL 인젝션, XSS, 안전하지 않은 데이터 처리 등 식별.\n- **오류 처리:** 예외 처리, 오류 복구 메커니즘, 사용자 피드백 적절성 평가.\n- **병행성:** 스레드 안전성, 동시성 문제, 교착 상태 가능성 검토.\n\n### 코딩 표준\n- **명명 규칙:** 변수, 함수, 클래스 등의 이름이 명확하고 일관되게 사용되는지 확인.\n- **코드 스타일:** 일관된 들여쓰기, 공백, 괄호 사용 등 스타일 가이드라인 준수 확인.\n- **주석:** 필요한 곳에 적절한 주석이 있는지, 과도하거나 불필요한 주석은 없는지 확인.\n\n### 아키텍처 및 설계\n- **설계 패턴:** 적절한 디자인 패턴 사용, 불필요한 복잡성 회피 여부 검토.\n- **의존성:** 컴포넌트 간 의존성과 결합도 평가, 의존성 주입 활용 검토.\n- **책임 분리:** 단일 책임 원칙 준수 여부, 응집도 높은 컴포넌트 구성 확인.\n\n### 테스트 적합성\n- **테스트 용이성:** 코드가 단위 테스트에 적합하게 작성되었는지 평가.\n- **테스트 범위:** 경계 조건, 예외 경로, 핵심 비즈니스 로직에 대한 테스트 필요성 식별.",
+		reviewFormat:
+			"\n## 리뷰 형식\n\n### 1. 요약\n[변경사항에 대한 간결한 3-5줄 요약. 전반적인 품질 평가, 주요 장점과 개선점을 포함하세요.]\n\n### 2. 긍정적 측면\n1. [주목할 만한 좋은 구현/개선점]\n   - [구체적인 설명과 코드 예시]\n2. [다른 긍정적 측면]\n   - [세부 설명]\n3. [추가 긍정적 측면]\n   - [세부 설명]\n\n### 3. 주요 개선 필요 사항\n1. [이슈 제목: 심각도(높음/중간/낮음)]\n   - **문제:** [명확한 문제 설명]\n   - **영향:** [이슈가 코드베이스 또는 애플리케이션에 미치는 잠재적 영향]\n   - **해결책:** [구체적인 개선 방안]\n   ```\n   // 개선된 코드 예시\n   ```\n   - **참고 자료:** [관련 문서/모범 사례 링크(해당되는 경우)]\n\n2. [이슈 제목: 심각도]\n   - **문제:** [설명]\n   - **영향:** [설명]\n   - **해결책:** [설명]\n   ```\n   // 코드 예시\n   ```\n\n### 4. 리팩토링 제안\n[더 큰 규모의 리팩토링이나 아키텍처 변경에 대한 제안. 현재 구현의 한계를 설명하고 더 나은 접근 방식을 제안하세요.]\n\n### 5. 관련 파일 영향 분석\n[변경사항이 다른 파일이나 시스템 컴포넌트에 미치는 잠재적 영향 분석]\n\n### 6. 요약 및 우선순위\n[가장 중요한 개선 사항 요약 및 우선순위화. 향후 개선을 위한 로드맵 제안]",
+		pullRequestHeading: "\n## 풀 리퀘스트\n",
+		filesListHeading: "\n## 변경된 파일 목록\n",
+		batchNote: (index, total) =>
+			`\n이 리뷰는 대규모 PR을 나눈 ${total}개 배치 중 ${index}번째입니다. 위 파일에만 코멘트를 작성해주세요. 다음 파일은 다른 배치에서 리뷰됩니다:\n`,
+		fileContentsHeading: "\n## 변경 내용 상세\n",
+		diffLegend:
+			'각 diff 줄 앞의 첫 번째 숫자는 이전 파일의 줄 번호(LEFT), 두 번째 숫자는 새 파일의 줄 번호(RIGHT)입니다. 추가되거나 유지된 줄에는 새 파일의 줄 번호와 side "RIGHT"로, 삭제된 줄(-)에는 이전 파일의 줄 번호와 side "LEFT"로 코멘트하세요.',
+		removedFile: "상태: 삭제됨",
+		changedPart: "변경된 부분",
+		fullContent: "전체 내용",
+		omittedLines: (from, to) => `... ${from}-${to}번째 줄 생략 ...`,
+		truncatedLines: (count) => `... 컨텍스트 크기 제한으로 ${count}줄 생략 ...`,
+		userFeedbackHeading: "\n## 개발자/리뷰어 피드백\n",
+		generalComments: "### 일반 코멘트\n",
+		fileComments: "### 파일별 코멘트\n",
+		commentLine: (line) => `라인 ${line}`,
+		relatedFilesHeading: "\n## 관련 파일 영향 분석\n",
+		relatedFilesFor: (file) =>
+			`### ${file}의 변경으로 영향 받을 수 있는 파일\n`,
+		closingInstructions:
+			"\n## 응답 형식 지침\n\n" +
+			"### 언어 및 인코딩\n" +
+			"- 한글 및 비라틴 문자 사용 시 유니코드 이스케이프(\\u)를 사용하지 마세요.\n" +
+			"- UTF-8 인코딩된 문자를 그대로 사용하세요.\n" +
+			"- 특수 문자나 제어 문자만 이스케이프 처리하세요.\n\n" +
+			"### 코드 예시\n" +
+			"- 코드 예시는 항상 적절한 언어 구문 강조와 함께 코드 블록으로 제공하세요.\n" +
+			"- 수정 전/후 코드를 함께 보여주면 더 효과적입니다.\n\n" +
+			"### 중요 원칙\n" +
+			"- 코드 리뷰는 단순히 문제를 지적하는 것이 아니라 교육적 피드백을 제공하는 것을 목표로 합니다.\n" +
+			"- 긍정적인 측면도 강조하여 균형 잡힌 리뷰를 제공하세요.\n" +
+			"- 가장 중요한 이슈에 우선순위를 두고, 사소한 문제는 간략히 언급하세요.\n" +
+			"- 구체적인 개선 방안과 학습 자료를 함께 제공하세요.",
+		userMessage:
+			"제공된 모든 변경사항을 검토하고 포괄적이면서도 간결한 코드 리뷰를 제공해주세요. 중요한 이슈에 집중하고, 구체적인 개선 제안을 코드 예시와 함께 제공해주세요. 변경된 파일과 관련 파일들 간의 잠재적 영향도 분석해주세요. 반드시 지정된 형식(summary와 comments 필드만 포함)의 JSON 형태로 응답해주세요.",
+		toolUserMessage:
+			"제공된 모든 변경사항을 검토하고 포괄적이면서도 간결한 코드 리뷰를 제공해주세요. 중요한 이슈에 집중하고, 구체적인 개선 제안을 코드 예시와 함께 제공해주세요. 변경된 파일과 관련 파일들 간의 잠재적 영향도 분석해주세요. 리뷰 결과는 반드시 submit_review 도구를 호출하여 제출해주세요.",
+		exampleSummary:
+			"코드는 잘 작성되었지만 몇 가지 중요한 이슈가 있습니다:\\n\\n- 일부 함수명이 명확하지 않음\\n- 오류 처리 개선 필요\\n- 성능 이슈",
+		exampleRenameComment: "함수 이름을 더 명확하게 변경하세요:",
+		exampleErrorComment: "예외 처리가 부족합니다. try/catch를 추가하세요.",
+	},
+	review: {
+		overallAssessment: "Overall Assessment",
+		lineCommentsTitle: "라인별 코멘트",
+		detailedComments: "상세 코멘트",
+		suggestedCode: "제안 코드",
+		additionalFindingsHeading: "추가 발견 사항",
+		relocatedNote: (line) =>
+			`이 코멘트는 diff에 포함되지 않은 ${line}번째 줄에서 옮겨졌습니다.`,
+		duplicateCommentsNote: (count) =>
+			`이전 리뷰에서 이미 남긴 ${count}개의 코멘트는 다시 게시하지 않았습니다.`,
+		checkRunTitle: (count) => `Loxops 코드 리뷰: ${count}개의 지적 사항`,
+		threadResolvedNote: (commit) =>
+			`✅ ${commit} 커밋에서 수정된 것으로 확인되어 이 스레드를 해결 처리했습니다.`,
+		changesRequestDismissed: (commit) =>
+			`${commit} 커밋 리뷰에서 더 이상 변경을 요청하지 않습니다.`,
+		previousReviews: (count) => `이전 리뷰 (${count}개)`,
+		historyEntry: (commit) => `커밋 ${commit} 리뷰`,
+		filteredCommentsNote: (total, shown, removed) =>
+			`참고: ${total}개 중 ${shown}개의 주요 코멘트만 표시되었습니다. ${removed}개의 낮은 우선순위 코멘트는 필터링되었습니다.`,
+		batchHeading: (index, total, files) =>
+			`배치 ${index}/${total} (파일 ${files}개)`,
+		costLimitNote: (maxCost, files) =>
+			`예상 비용이 max-cost 한도($${maxCost})를 넘어 다음 ${files.length}개 파일은 리뷰되지 않았습니다: ${files.join(", ")}`,
+		skippedFilesHeading: (count) => `리뷰하지 않은 파일 (${count}개)`,
+		skipReasons: {
+			generated: "자동 생성된 코드",
+			lockfile: "잠금 파일",
+			"low-priority": "우선순위가 낮아 max-files 한도에서 제외됨",
+		},
+		riskScore: "위험도 점수",
+		responseContinuedNote: (continuations) =>
+			`응답이 출력 토큰 한도에 도달하여 ${continuations}회 이어서 생성되었습니다.`,
+		responseIncompleteNote: (continuations) =>
+			`응답이 ${continuations}회 이어서 생성한 후에도 출력 토큰 한도에 도달하여 리뷰가 불완전할 수 있습니다.`,
+		errorSummaries: [
+			"코드 리뷰 응답 파싱에 실패했습니다",
+			"Claude 코드 리뷰 생성 중 오류가 발생했습니다",
+			"알 수 없는 오류로 코드 리뷰를 생성할 수 없습니다",
+		],
+	},
+	command: {
+		usage:
+			"사용 가능한 명령:\n\n- `/loxops review [paths...]`: 풀 리퀘스트를 다시 리뷰합니다. 경로 패턴을 지정하면 일치하는 파일만 리뷰합니다\n- `/loxops summary`: 요약만 새로 작성합니다\n- `/loxops explain <file>:<line>`: 지정한 줄의 코드를 설명합니다\n- `/loxops ignore <fingerprint>`: 지정한 지문(각 라인 코멘트 아래에 `loxops:…`로 표시)의 지적을 해결 처리하고 더 이상 보고하지 않습니다",
+		explanationHeading: (location) => `${location} 설명`,
+		findingIgnored: (user) => `🔕 @${user}님의 요청으로 무시합니다.`,
+		findingNotFound: (fingerprint) =>
+			`지문이 \`${fingerprint}\`인 열린 Loxops 코멘트가 없습니다.`,
+		findingAmbiguous: (fingerprint, count) =>
+			`지문이 \`${fingerprint}\`(으)로 시작하는 열린 Loxops 코멘트가 ${count}개입니다. 지문을 더 길게 입력해 주세요.`,
+	},
+	walkthrough: {
+		heading: "변경 사항 안내",
+		fileColumn: "파일",
+		changeColumn: "변경",
+		summaryColumn: "요약",
+		testingHeading: "테스트 참고 사항",
+		fileStatuses: {
+			added: "추가",
+			modified: "수정",
+			removed: "삭제",
+			renamed: "이름 변경",
+		},
+	},
+	trigger: {
+		skipNotice: (reason) => `${reason} 자동 리뷰를 건너뛰었습니다.`,
+		skipReasons: {
+			draft: () => "초안 PR이므로",
+			label: (label) => `\`${label}\` 라벨이 있으므로`,
+			author: (author) => `@${author}의 PR은 리뷰하지 않으므로`,
+			bot: (author) => `봇(@${author})이 연 PR이므로`,
+			"base-branch": (branch) =>
+				`베이스 브랜치 \`${branch}\`는 리뷰 대상이 아니므로`,
+			"head-branch": (branch) => `브랜치 \`${branch}\`는 리뷰 대상이 아니므로`,
+			size: (lines) => `변경된 줄 수(${lines})가 제한을 넘으므로`,
+		},
+	},
+};
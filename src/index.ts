@@ -1,8 +1,289 @@
 import * as core from "@actions/core";
+import * as github from "@actions/github";
+import { REVIEW_LANGUAGES, getMessages } from "./i18n";
 import { ClaudeService } from "./services/claude";
+import { CommandHandlerService } from "./services/command-handler";
+import {
+	ConfigService,
+	FAIL_ON_PRIORITIES,
+	OUTPUT_MODES,
+	REVIEW_EVENT_POLICIES,
+	SUMMARY_COMMENT_MODES,
+	THREAD_RESOLUTION_MODES,
+	WALKTHROUGH_MODES,
+} from "./services/config";
+import { ConversationService } from "./services/conversation";
 import { FileAnalyzerService } from "./services/file-analyzer";
 import { GitHubService } from "./services/github";
-import type { ProjectType, ReviewOptions } from "./types";
+import { ProjectPartitionerService } from "./services/project-partitioner";
+import { ThreadResolverService } from "./services/thread-resolver";
+import type {
+	CommentPriorityFilter,
+	ProjectType,
+	ReviewContext,
+	ReviewLanguage,
+	ReviewOptions,
+	StructuredReview,
+} from "./types";
+import {
+	deriveLabels,
+	getLabelChanges,
+	getManagedLabels,
+} from "./utils/labels";
+import {
+	countByPriority,
+	getHighestPriority,
+	getReviewEvent,
+	isAtLeastPriority,
+} from "./utils/severity";
+import { evaluateTriggerPolicy } from "./utils/trigger-policy";
+import { formatWalkthrough, removeWalkthrough } from "./utils/walkthrough";
+
+/**
+ * Reads a comma-separated action input, ignoring blank entries
+ */
+function getListInput(name: string): string[] {
+	return core
+		.getInput(name)
+		.split(",")
+		.map((value) => value.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Reads an action input that must be one of the given values, failing the action on anything else
+ */
+function getChoiceInput<T extends string>(
+	name: string,
+	values: readonly T[],
+	defaultValue: T,
+): T {
+	const value = core.getInput(name) || defaultValue;
+	if (!(values as readonly string[]).includes(value)) {
+		throw new Error(
+			`Unsupported ${name} "${value}". Expected one of ${values.join(", ")}`,
+		);
+	}
+	return value as T;
+}
+
+interface Services {
+	github: GitHubService;
+	claude: ClaudeService;
+	fileAnalyzer: FileAnalyzerService;
+}
+
+/**
+ * Reviews the pull request, limited to the changed files matching the given globs if any
+ */
+async function generateReview(
+	options: ReviewOptions,
+	workspace: string,
+	services: Services,
+	paths: string[] = [],
+): Promise<{ context: ReviewContext; review: StructuredReview }> {
+	// Prepare review context. The files are split into batches that fit the model's context window
+	const context = await services.github.prepareReviewContext(
+		options.maxFiles,
+		options.projectType,
+		paths,
+	);
+
+	const walkthrough =
+		(options.walkthrough ?? "off") !== "off"
+			? await createWalkthrough(options, services, context)
+			: undefined;
+
+	// Find related files if enabled
+	if (options.findRelatedFiles) {
+		context.relatedFiles =
+			await services.fileAnalyzer.findRelatedFiles(context);
+	}
+
+	// Generate code review, one prompt per project when reviewing a monorepo
+	let review: StructuredReview;
+	if (options.monorepo) {
+		const partitioner = new ProjectPartitionerService(
+			options,
+			workspace,
+			services.fileAnalyzer,
+		);
+		review = await services.claude.generatePartitionedReview(
+			context,
+			partitioner.partition(context.files),
+		);
+	} else {
+		const projectType =
+			options.projectType === "auto"
+				? services.fileAnalyzer.detectProjectType(context.files).projectType
+				: options.projectType;
+		review = await services.claude.generateReview(context, projectType);
+	}
+
+	if (walkthrough && options.walkthrough === "summary") {
+		review = { ...review, summary: `${review.summary}\n\n${walkthrough}` };
+	}
+
+	return { context, review };
+}
+
+/**
+ * Generates the walkthrough of the whole pull request and puts it into the description in
+ * "description" mode. The review prompt gets the author's description with the new walkthrough.
+ */
+async function createWalkthrough(
+	options: ReviewOptions,
+	services: Services,
+	context: ReviewContext,
+): Promise<string | undefined> {
+	// A partial review only holds the newest changes, while the walkthrough covers all of them
+	const files = context.partial
+		? await services.github.getChangedFiles(context.pullRequestNumber)
+		: context.files;
+	const authorText = removeWalkthrough(context.pullRequestBody);
+
+	const walkthrough = await services.claude.generateWalkthrough(
+		{ ...context, pullRequestBody: authorText },
+		files,
+	);
+	if (!walkthrough) {
+		return undefined;
+	}
+
+	const markdown = formatWalkthrough(
+		walkthrough,
+		files,
+		getMessages(options.reviewLanguage).walkthrough,
+	);
+	if (options.walkthrough === "description") {
+		await services.github.updatePullRequestWalkthrough(
+			context.pullRequestNumber,
+			markdown,
+		);
+	}
+	context.pullRequestBody = authorText
+		? `${authorText}\n\n${markdown}`
+		: markdown;
+
+	return markdown;
+}
+
+/**
+ * Posts the review, sets the action outputs and resolves fixed threads. The reviewed head is
+ * recorded only when the whole pull request was reviewed.
+ */
+async function publishReview(
+	options: ReviewOptions,
+	services: Services,
+	context: ReviewContext,
+	review: StructuredReview,
+	reviewedSha?: string,
+): Promise<void> {
+	// Post review as a comment on the PR with line-specific comments. In check-run mode only the
+	// summary is posted, which records the reviewed head, and no verdict is submitted.
+	const lineComments = options.outputMode !== "check-run";
+	const event = lineComments
+		? getReviewEvent(options.reviewEventPolicy ?? "comment", review.comments)
+		: "COMMENT";
+	await services.github.createReviewWithComments(
+		context.pullRequestNumber,
+		review,
+		{
+			skippedFiles: context.skippedFiles,
+			reviewedSha,
+			event,
+			lineComments,
+			comparedSha: context.comparedSha,
+		},
+	);
+
+	// Publish the findings as a check run with annotations
+	if (options.outputMode === "check-run" || options.outputMode === "both") {
+		await services.github.createCheckRun(
+			context.pullRequestNumber,
+			review,
+			context.skippedFiles,
+		);
+	}
+
+	// Expose the findings so later workflow steps can react to them
+	const counts = countByPriority(review.comments);
+	for (const [priority, count] of Object.entries(counts)) {
+		core.setOutput(`${priority}-count`, count);
+	}
+	core.setOutput(
+		"highest-priority",
+		getHighestPriority(review.comments) ?? "none",
+	);
+	core.setOutput("review-event", event);
+
+	// Label the pull request by affected area and risk level
+	if (options.autoLabel) {
+		// Only labels Loxops added itself may be removed again, never those applied by hand
+		const ownLabels = await services.github.getOwnLabels(
+			context.pullRequestNumber,
+		);
+		const { add, remove } = getLabelChanges(
+			await services.github.getLabels(context.pullRequestNumber),
+			deriveLabels(context, review, options),
+			getManagedLabels(options).filter((label) => ownLabels.includes(label)),
+			context.partial ?? false,
+		);
+		await services.github.updateLabels(context.pullRequestNumber, add, remove);
+	}
+
+	// Resolve earlier Loxops threads whose flagged code has since been fixed
+	if (context.headSha) {
+		const threadResolver = new ThreadResolverService(
+			services.github,
+			services.claude,
+			options.resolveThreads ?? "code",
+		);
+		await threadResolver.resolveFixedThreads(
+			context.pullRequestNumber,
+			context.headSha,
+		);
+	}
+
+	// A partial review only saw some of the changes, so findings of earlier reviews that are
+	// still unresolved count as well when deciding whether the pull request stays blocked
+	const unresolved = context.partial
+		? await services.github.getOpenLoxopsThreads(context.pullRequestNumber)
+		: [];
+
+	// Lift earlier blocking reviews, which would otherwise stay until dismissed by hand
+	if (
+		lineComments &&
+		event !== "REQUEST_CHANGES" &&
+		context.headSha &&
+		getReviewEvent(options.reviewEventPolicy ?? "comment", unresolved) !==
+			"REQUEST_CHANGES"
+	) {
+		await services.github.dismissChangeRequests(
+			context.pullRequestNumber,
+			context.headSha,
+		);
+	}
+
+	const failOn = options.failOnPriority ?? "none";
+	if (failOn !== "none") {
+		const failing = review.comments.filter((comment) =>
+			isAtLeastPriority(comment.priority ?? "low", failOn),
+		);
+		const failingThreads = unresolved.filter((thread) =>
+			isAtLeastPriority(thread.priority, failOn),
+		);
+		if (failing.length > 0) {
+			core.setFailed(
+				`Found ${failing.length} review comments with ${failOn} priority or higher`,
+			);
+		} else if (failingThreads.length > 0) {
+			core.setFailed(
+				`Found ${failingThreads.length} unresolved review threads with ${failOn} priority or higher`,
+			);
+		}
+	}
+}
 
 async function run(): Promise<void> {
 	try {
@@ -13,21 +294,66 @@ async function run(): Promise<void> {
 		const fileExtensions = core.getInput("file-extensions").split(",");
 		const excludePatterns = core.getInput("exclude-patterns").split(",");
 		const findRelatedFiles = core.getInput("find-related-files") === "true";
-		const maxFiles = Number.parseInt(core.getInput("max-files"), 10);
+		const maxFiles = core.getInput("max-files")
+			? Number.parseInt(core.getInput("max-files"), 10)
+			: 0;
 		const model = core.getInput("model");
 		const useRepomix = core.getInput("use-repomix") === "true";
+		const monorepo = core.getInput("monorepo") === "true";
+		const reviewLanguage = (core.getInput("review-language") ||
+			"ko") as ReviewLanguage;
+		if (!REVIEW_LANGUAGES.includes(reviewLanguage)) {
+			throw new Error(
+				`Unsupported review-language "${reviewLanguage}". Expected one of ${REVIEW_LANGUAGES.join(", ")}`,
+			);
+		}
 		const maxComments = core.getInput("max-comments")
 			? Number.parseInt(core.getInput("max-comments"))
 			: undefined;
-		const commentPriority = core.getInput("comment-priority") as
-			| "all"
-			| "medium"
-			| "high"
-			| "critical"
-			| undefined;
+		const maxOutputTokens = core.getInput("max-output-tokens")
+			? Number.parseInt(core.getInput("max-output-tokens"), 10)
+			: undefined;
+		const maxBatches = core.getInput("max-batches")
+			? Number.parseInt(core.getInput("max-batches"), 10)
+			: undefined;
+		const maxCost = core.getInput("max-cost")
+			? Number.parseFloat(core.getInput("max-cost"))
+			: undefined;
+		const commentPriority = core.getInput(
+			"comment-priority",
+		) as CommentPriorityFilter;
+		const summaryCommentMode = getChoiceInput(
+			"summary-comment-mode",
+			SUMMARY_COMMENT_MODES,
+			"update",
+		);
+		const resolveThreads = getChoiceInput(
+			"resolve-threads",
+			THREAD_RESOLUTION_MODES,
+			"code",
+		);
+		const failOnPriority = getChoiceInput(
+			"fail-on-priority",
+			FAIL_ON_PRIORITIES,
+			"none",
+		);
+		const reviewEventPolicy = getChoiceInput(
+			"review-event-policy",
+			REVIEW_EVENT_POLICIES,
+			"comment",
+		);
+		const outputMode = getChoiceInput("output-mode", OUTPUT_MODES, "comments");
+		const maxThreadReplies = core.getInput("max-thread-replies")
+			? Number.parseInt(core.getInput("max-thread-replies"), 10)
+			: undefined;
+		const maxChangedLines = core.getInput("max-changed-lines")
+			? Number.parseInt(core.getInput("max-changed-lines"), 10)
+			: undefined;
+		const walkthrough = getChoiceInput("walkthrough", WALKTHROUGH_MODES, "off");
+		const configPath = core.getInput("config-path") || ".loxops.yml";
 
 		// Initialize options
-		const options: ReviewOptions = {
+		const inputOptions: ReviewOptions = {
 			projectType,
 			fileExtensions,
 			excludePatterns,
@@ -37,32 +363,114 @@ async function run(): Promise<void> {
 			useRepomix,
 			maxComments,
 			commentPriority: commentPriority || "medium",
+			monorepo,
+			reviewLanguage,
+			maxOutputTokens,
+			maxBatches,
+			maxCost,
+			summaryCommentMode,
+			resolveThreads,
+			failOnPriority,
+			reviewEventPolicy,
+			outputMode,
+			maxThreadReplies,
+			skipDrafts: core.getInput("skip-drafts") === "true",
+			skipLabels: getListInput("skip-labels"),
+			forceLabels: getListInput("force-labels"),
+			skipAuthors: getListInput("skip-authors"),
+			skipBots: core.getInput("skip-bots") === "true",
+			baseBranches: getListInput("base-branches"),
+			skipHeadBranches: getListInput("skip-head-branches"),
+			maxChangedLines,
+			postSkipNotice: core.getInput("post-skip-notice") === "true",
+			autoLabel: core.getInput("auto-label") === "true",
+			sensitivePaths: getListInput("sensitive-paths"),
+			walkthrough,
 		};
 
+		// Merge the repository configuration file over the action inputs
+		const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+		const configService = new ConfigService(workspace);
+		const options = configService.mergeOptions(
+			inputOptions,
+			configService.loadConfig(configPath),
+		);
+
 		// Initialize services
-		const fileAnalyzerService = new FileAnalyzerService(githubToken, options);
-		const githubService = new GitHubService(githubToken, fileAnalyzerService);
+		const fileAnalyzerService = new FileAnalyzerService(
+			githubToken,
+			options,
+			workspace,
+		);
+		const githubService = new GitHubService(
+			githubToken,
+			fileAnalyzerService,
+			options.reviewLanguage,
+			options.summaryCommentMode,
+			core.getInput("bot-login") || undefined,
+		);
+
+		// Skip pull requests excluded by the trigger policy before spending any API budget
+		const trigger = githubService.getPullRequestTrigger();
+		const skip = trigger && evaluateTriggerPolicy(trigger, options);
+		if (trigger && skip) {
+			core.info(
+				`Skipping the review of PR #${trigger.number} (${skip.reason}: ${skip.detail})`,
+			);
+			// Only when the pull request is opened, so later pushes do not repeat the notice
+			if (options.postSkipNotice && trigger.action === "opened") {
+				const messages = getMessages(options.reviewLanguage);
+				await githubService.createReviewComment(
+					trigger.number,
+					messages.trigger.skipNotice(
+						messages.trigger.skipReasons[skip.reason](skip.detail),
+					),
+				);
+			}
+			return;
+		}
+
 		const claudeService = new ClaudeService(claudeApiKey, options);
 
-		// Prepare review context
-		const context = await githubService.prepareReviewContext(maxFiles);
+		const services: Services = {
+			github: githubService,
+			claude: claudeService,
+			fileAnalyzer: fileAnalyzerService,
+		};
 
-		// Find related files if enabled
-		if (options.findRelatedFiles) {
-			context.relatedFiles =
-				await fileAnalyzerService.findRelatedFiles(context);
+		if (github.context.eventName === "issue_comment") {
+			const commandHandler = new CommandHandlerService(
+				githubService,
+				claudeService,
+				{
+					generateReview: (paths) =>
+						generateReview(options, workspace, services, paths),
+					publishReview: (context, review, reviewedSha) =>
+						publishReview(options, services, context, review, reviewedSha),
+				},
+				getMessages(options.reviewLanguage),
+			);
+			await commandHandler.handleCommand();
+		} else if (github.context.eventName === "pull_request_review_comment") {
+			const conversation = new ConversationService(
+				githubService,
+				claudeService,
+				options.maxThreadReplies ?? 3,
+			);
+			await conversation.replyToConversation();
+		} else {
+			const { context, review } = await generateReview(
+				options,
+				workspace,
+				services,
+			);
+			await publishReview(options, services, context, review, context.headSha);
 		}
 
-		// Generate code review
-		const review = await claudeService.generateReview(context);
-
-		// Post review as a comment on the PR with line-specific comments
-		await githubService.createReviewWithComments(
-			context.pullRequestNumber,
-			review,
+		core.info(
+			`Code review completed successfully (estimated Claude cost: $${claudeService.getEstimatedCost().toFixed(4)})`,
 		);
-
-		core.info("Code review completed successfully");
+		await core.summary.write();
 	} catch (error) {
 		if (error instanceof Error) {
 			core.setFailed(`Action failed with error: ${error.message}`);
@@ -1,59 +1,563 @@
 import * as core from "@actions/core";
 import { Anthropic } from "@anthropic-ai/sdk";
+import { type Messages, getMessages } from "../i18n";
 import { getPromptTemplate } from "../templates/base";
 import type {
+	ClaudeTextResponse,
+	CommentPriorityFilter,
+	FileChange,
+	ProjectPartition,
+	ProjectType,
 	ReviewComment,
 	ReviewContext,
+	ReviewConversation,
 	ReviewOptions,
+	ReviewThread,
 	StructuredReview,
+	Walkthrough,
 } from "../types";
+import { estimateTokenCount } from "../utils/helpers";
+import {
+	estimateCost,
+	getModelMaxOutputTokens,
+	supportsToolUse,
+} from "../utils/models";
+import { resolveOptionsForPath } from "./config";
 import { RepomixService } from "./repomix";
+import { TokenBudgetService } from "./token-budget";
+
+const COMMENT_PRIORITIES = ["critical", "high", "medium", "low"];
+const COMMENT_SIDES = ["LEFT", "RIGHT"];
+
+// Continuation requests sent after a response hits the output token limit
+const MAX_CONTINUATIONS = 3;
+
+// Output tokens a review is expected to take when checking max-cost, since reviews rarely come
+// close to the output limit. Actual usage is charged once the response arrives.
+const EXPECTED_REVIEW_OUTPUT_TOKENS = 4096;
+
+// Output tokens of an explanation or a reply in a review thread
+const REPLY_MAX_TOKENS = 1024;
+
+// Diff lines of each file shown to Claude when writing the walkthrough
+const MAX_WALKTHROUGH_PATCH_LINES = 80;
+
+// Tool whose input schema mirrors StructuredReview, so the model returns the review as structured data
+const REVIEW_TOOL: Anthropic.Tool = {
+	name: "submit_review",
+	description:
+		"Submit the code review: an overall summary and line comments on the changed files.",
+	input_schema: {
+		type: "object",
+		properties: {
+			summary: {
+				type: "string",
+				description: "Brief overall assessment of the changes, in markdown",
+			},
+			comments: {
+				type: "array",
+				items: {
+					type: "object",
+					properties: {
+						path: {
+							type: "string",
+							description: "Path of the changed file",
+						},
+						line: {
+							type: "integer",
+							description:
+								"Line number in the new version of the file, or in the old version when side is LEFT",
+						},
+						startLine: {
+							type: "integer",
+							description:
+								"First line when the comment covers several lines within one diff hunk",
+						},
+						endLine: {
+							type: "integer",
+							description: "Last line of the range, the same as line",
+						},
+						side: {
+							type: "string",
+							enum: COMMENT_SIDES,
+							description:
+								"RIGHT for added or unchanged lines (default), LEFT for removed lines",
+						},
+						priority: {
+							type: "string",
+							enum: COMMENT_PRIORITIES,
+						},
+						body: {
+							type: "string",
+							description: "Comment body in markdown",
+						},
+						suggestion: {
+							type: "string",
+							description:
+								"Optional exact replacement for the commented lines of the new file, with their indentation and without code fences",
+						},
+					},
+					required: ["path", "line", "priority", "body"],
+				},
+			},
+		},
+		required: ["summary", "comments"],
+	},
+};
 
 export class ClaudeService {
 	private client: Anthropic;
 	private options: ReviewOptions;
 	private repomixService: RepomixService;
+	private maxOutputTokens: number;
+	private usage = { inputTokens: 0, outputTokens: 0 };
+	private packedRepo?: Promise<string>;
+	protected messages: Messages;
 
 	constructor(apiKey: string, options: ReviewOptions) {
 		this.client = new Anthropic({ apiKey });
 		this.options = options;
+		this.messages = getMessages(options.reviewLanguage);
 		this.repomixService = new RepomixService();
+		this.maxOutputTokens = this.resolveMaxOutputTokens();
+	}
+
+	/**
+	 * Reviews the changed files, splitting them into batches that each fit a single Claude call
+	 * when they are too large for one. Batch reviews are merged into one review.
+	 */
+	async generateReview(
+		context: ReviewContext,
+		projectType: ProjectType = this.options.projectType,
+	): Promise<StructuredReview> {
+		const budget = new TokenBudgetService(
+			this.options.model,
+			this.maxOutputTokens,
+			this.messages,
+		);
+		const batches = budget.splitIntoBatches(
+			context.files,
+			this.options.maxBatches ?? 1,
+		);
+
+		if (batches.length <= 1) {
+			return (
+				(await this.generateBatchReview(context, projectType)) ?? {
+					summary: this.messages.review.costLimitNote(
+						this.options.maxCost ?? 0,
+						context.files.map((f) => f.filename),
+					),
+					comments: [],
+				}
+			);
+		}
+
+		core.info(
+			`Splitting ${context.files.length} files into ${batches.length} review batches`,
+		);
+		const sections: { heading: string; review: StructuredReview }[] = [];
+		const skippedFiles: string[] = [];
+
+		for (const [index, files] of batches.entries()) {
+			if (skippedFiles.length > 0) {
+				skippedFiles.push(...files.map((f) => f.filename));
+				continue;
+			}
+
+			core.info(
+				`Reviewing batch ${index + 1}/${batches.length} with ${files.length} files`,
+			);
+			const batchContext: ReviewContext = {
+				...this.getSubContext(context, files),
+				batch: {
+					index,
+					total: batches.length,
+					otherFiles: batches
+						.filter((_, i) => i !== index)
+						.flat()
+						.map((f) => f.filename),
+				},
+			};
+
+			const review = await this.generateBatchReview(batchContext, projectType);
+			if (!review) {
+				// Later batches are skipped as well once the cost limit is reached
+				skippedFiles.push(...files.map((f) => f.filename));
+				continue;
+			}
+
+			sections.push({
+				heading: this.messages.review.batchHeading(
+					index + 1,
+					batches.length,
+					files.length,
+				),
+				review,
+			});
+		}
+
+		const merged = this.mergeReviews(sections);
+		if (skippedFiles.length > 0) {
+			merged.summary += `\n\n_${this.messages.review.costLimitNote(this.options.maxCost ?? 0, skippedFiles)}_`;
+		}
+		return merged;
+	}
+
+	/**
+	 * Reviews each project partition with its own template and merges the results
+	 * into a single review with one summary section per project
+	 */
+	async generatePartitionedReview(
+		context: ReviewContext,
+		partitions: ProjectPartition[],
+	): Promise<StructuredReview> {
+		if (partitions.length === 1) {
+			return this.generateReview(context, partitions[0].projectType);
+		}
+
+		const sections: { heading: string; review: StructuredReview }[] = [];
+
+		for (const partition of partitions) {
+			core.info(
+				`Reviewing project ${partition.name} (${partition.projectType}) with ${partition.files.length} files`,
+			);
+
+			sections.push({
+				heading: `${partition.name} (\`${partition.root}\`, ${partition.projectType})`,
+				review: await this.generateReview(
+					this.getSubContext(context, partition.files),
+					partition.projectType,
+				),
+			});
+		}
+
+		return this.mergeReviews(sections);
+	}
+
+	/**
+	 * Returns the estimated cost in USD of all Claude requests made so far
+	 */
+	getEstimatedCost(): number {
+		return estimateCost(
+			this.options.model,
+			this.usage.inputTokens,
+			this.usage.outputTokens,
+		);
+	}
+
+	/**
+	 * Asks Claude whether the current code addresses the finding of a review thread.
+	 * Answers no when unsure, when the request fails or when max-cost has been reached.
+	 */
+	async isConcernAddressed(
+		thread: ReviewThread,
+		currentCode: string,
+	): Promise<boolean> {
+		if (
+			this.options.maxCost !== undefined &&
+			this.getEstimatedCost() >= this.options.maxCost
+		) {
+			return false;
+		}
+
+		try {
+			const response = await this.sendMessage({
+				model: this.options.model,
+				max_tokens: 16,
+				system:
+					"You check whether an earlier code review comment has been addressed. Answer with exactly one word: yes or no. Answer no when unsure.",
+				messages: [
+					{
+						role: "user",
+						content: `Review comment on ${thread.path}:\n${thread.body}\n\nCode it was made on:\n\`\`\`diff\n${thread.diffHunk}\n\`\`\`\n\nCurrent code:\n\`\`\`\n${currentCode}\n\`\`\`\n\nIs the issue raised in the comment addressed by the current code?`,
+					},
+				],
+			});
+			return /^\s*yes\b/i.test(this.getResponseText(response));
+		} catch (error) {
+			core.warning(
+				`Error checking whether ${thread.path} addresses the review comment: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * Asks Claude to explain a line of code for a `/loxops explain` command, given the
+	 * surrounding code with line numbers
+	 */
+	async explainCode(path: string, line: number, code: string): Promise<string> {
+		const system = `You explain code to a reviewer of a pull request. Describe what the line does, why it is likely written that way and any risks it carries. Answer concisely in markdown, in ${this.messages.languageName}.`;
+		const content = `Code around line ${line} of ${path}:\n\`\`\`\n${code}\n\`\`\`\n\nExplain line ${line}.`;
+
+		if (this.exceedsCostLimit(`${system}\n${content}`, REPLY_MAX_TOKENS)) {
+			throw new Error(
+				`Claude cost limit of $${this.options.maxCost} reached, not explaining ${path}:${line}`,
+			);
+		}
+
+		const response = await this.sendMessage({
+			model: this.options.model,
+			max_tokens: REPLY_MAX_TOKENS,
+			system,
+			messages: [{ role: "user", content }],
+		});
+		return this.getResponseText(response).trim();
+	}
+
+	/**
+	 * Asks Claude to answer the latest reply in a thread started by one of its findings,
+	 * given the code around the commented line with line numbers
+	 */
+	async replyInThread(
+		conversation: ReviewConversation,
+		code: string,
+	): Promise<string> {
+		const thread = conversation.messages
+			.map(
+				(message) =>
+					`**${message.fromLoxops ? "Loxops" : `@${message.author}`}**:\n${message.body}`,
+			)
+			.join("\n\n");
+		const system = `You are Loxops, the code reviewer who wrote the first comment of a pull request review thread. Answer the latest reply: clarify the finding when asked why, concede when the explanation shows the code is right, or suggest a concrete fix in a code block. Answer concisely in markdown, in ${this.messages.languageName}.`;
+		const content = `Diff hunk the finding was made on in ${conversation.path}:\n\`\`\`diff\n${conversation.diffHunk}\n\`\`\`\n\nCurrent code around line ${conversation.line ?? "?"}:\n\`\`\`\n${code}\n\`\`\`\n\nThread:\n\n${thread}\n\nReply to the latest message.`;
+
+		if (this.exceedsCostLimit(`${system}\n${content}`, REPLY_MAX_TOKENS)) {
+			throw new Error(
+				`Claude cost limit of $${this.options.maxCost} reached, not replying on ${conversation.path}`,
+			);
+		}
+
+		const response = await this.sendMessage({
+			model: this.options.model,
+			max_tokens: REPLY_MAX_TOKENS,
+			system,
+			messages: [{ role: "user", content }],
+		});
+		return this.getResponseText(response).trim();
 	}
 
-	async generateReview(context: ReviewContext): Promise<StructuredReview> {
+	/**
+	 * Asks Claude for an overview of the pull request, a one-line summary of each changed file and
+	 * testing notes. Returns undefined when the request fails or max-cost has been reached.
+	 */
+	async generateWalkthrough(
+		context: ReviewContext,
+		files: FileChange[],
+	): Promise<Walkthrough | undefined> {
+		if (
+			this.options.maxCost !== undefined &&
+			this.getEstimatedCost() >= this.options.maxCost
+		) {
+			return undefined;
+		}
+
+		const changes = files
+			.map((file) => {
+				const patch = (file.patch ?? "")
+					.split("\n")
+					.slice(0, MAX_WALKTHROUGH_PATCH_LINES)
+					.join("\n");
+				return `### ${file.filename} (${file.status})\n\`\`\`diff\n${patch}\n\`\`\``;
+			})
+			.join("\n\n");
+
+		try {
+			const response = await this.sendMessage({
+				model: this.options.model,
+				max_tokens: 2048,
+				system: `You describe pull requests for their reviewers. Reply with only a JSON object of the form {"overview": "2-4 sentences on what the pull request changes and why", "files": {"<path>": "one-line summary of the change"}, "testing": "markdown list of what to test or verify"}. Write every text in ${this.messages.languageName}.`,
+				messages: [
+					{
+						role: "user",
+						content: `Title: ${context.pullRequestTitle}\n\nDescription:\n${context.pullRequestBody || "(none)"}\n\nChanges:\n\n${changes}`,
+					},
+				],
+			});
+
+			const json = this.getResponseText(response).match(/\{[\s\S]*\}/)?.[0];
+			const parsed = JSON.parse(json ?? "");
+			if (typeof parsed.overview !== "string") {
+				throw new Error("The response has no overview");
+			}
+
+			return {
+				overview: parsed.overview,
+				files:
+					parsed.files && typeof parsed.files === "object" ? parsed.files : {},
+				testing: typeof parsed.testing === "string" ? parsed.testing : "",
+			};
+		} catch (error) {
+			core.warning(
+				`Error generating the walkthrough: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Runs a single Claude review, or returns null when it would exceed the cost limit
+	 */
+	protected async generateBatchReview(
+		context: ReviewContext,
+		projectType: ProjectType,
+	): Promise<StructuredReview | null> {
 		try {
 			core.info("Generating code review with Claude AI...");
-			const systemPrompt = await this.buildSystemPrompt(context);
-			const responseText = await this.callClaudeApi(systemPrompt);
-			return await this.parseClaudeResponse(responseText);
+			const systemPrompt = await this.buildSystemPrompt(context, projectType);
+
+			if (this.exceedsCostLimit(systemPrompt)) {
+				return null;
+			}
+
+			if (supportsToolUse(this.options.model)) {
+				const review = await this.requestToolReview(systemPrompt);
+				if (review) {
+					return review;
+				}
+			} else {
+				core.info(
+					`Model ${this.options.model} does not support tool use, requesting JSON text output`,
+				);
+			}
+
+			const response = await this.callClaudeApi(
+				systemPrompt + this.getResponseFormatInstructions(),
+			);
+			const review = await this.parseClaudeResponse(response.text);
+			return this.addCompletionNote(review, response);
 		} catch (error) {
 			return this.handleGenerationError(error);
 		}
 	}
 
-	protected async buildSystemPrompt(context: ReviewContext): Promise<string> {
-		const promptTemplate = getPromptTemplate(this.options.projectType);
-		let systemPrompt = promptTemplate.generatePrompt(context);
+	/**
+	 * Narrows the context to some of the changed files, keeping the shared pull request details
+	 */
+	private getSubContext(
+		context: ReviewContext,
+		files: FileChange[],
+	): ReviewContext {
+		const filenames = new Set(files.map((f) => f.filename));
+		return {
+			...context,
+			files,
+			relatedFiles: Object.fromEntries(
+				Object.entries(context.relatedFiles).filter(([changedFile]) =>
+					filenames.has(changedFile),
+				),
+			),
+		};
+	}
+
+	/**
+	 * Checks whether the next request could push the estimated spending over max-cost,
+	 * counting the prompt and the expected output tokens
+	 */
+	private exceedsCostLimit(
+		prompt: string,
+		outputTokens = Math.min(
+			this.maxOutputTokens,
+			EXPECTED_REVIEW_OUTPUT_TOKENS,
+		),
+	): boolean {
+		if (this.options.maxCost === undefined) {
+			return false;
+		}
+
+		const requestCost = estimateCost(
+			this.options.model,
+			estimateTokenCount(prompt),
+			outputTokens,
+		);
+		const spent = this.getEstimatedCost();
+
+		if (spent + requestCost > this.options.maxCost) {
+			core.warning(
+				`Skipping Claude request: estimated cost $${requestCost.toFixed(4)} on top of $${spent.toFixed(4)} spent exceeds max-cost $${this.options.maxCost}`,
+			);
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Merges reviews of several batches or projects into one review with a summary section each,
+	 * dropping duplicate comments on the same line
+	 */
+	protected mergeReviews(
+		sections: { heading: string; review: StructuredReview }[],
+	): StructuredReview {
+		const summary = sections
+			.map(({ heading, review }) => `### ${heading}\n\n${review.summary}`)
+			.join("\n\n");
+
+		const comments = new Map<string, ReviewComment>();
+		for (const comment of sections.flatMap(({ review }) => review.comments)) {
+			const key = `${comment.path}:${comment.side ?? "RIGHT"}:${comment.line}`;
+			const existing = comments.get(key);
+			if (
+				!existing ||
+				this.getCommentPriority(comment) > this.getCommentPriority(existing)
+			) {
+				comments.set(key, comment);
+			}
+		}
+
+		// Re-apply filtering so limits like maxComments hold across all sections
+		return this.filterReviewComments({
+			summary,
+			comments: [...comments.values()],
+		});
+	}
+
+	protected async buildSystemPrompt(
+		context: ReviewContext,
+		projectType: ProjectType = this.options.projectType,
+	): Promise<string> {
+		const promptTemplate = getPromptTemplate(
+			projectType,
+			this.options.reviewLanguage,
+		);
+		const budget = new TokenBudgetService(
+			this.options.model,
+			this.maxOutputTokens,
+			this.messages,
+		);
+		const fittedContext = budget.fitContext(context, (c) =>
+			promptTemplate.generatePrompt(c),
+		);
+		let systemPrompt = promptTemplate.generatePrompt(fittedContext);
 
 		if (this.options.useRepomix) {
-			systemPrompt = await this.addRepomixContext(systemPrompt, context);
+			systemPrompt = await this.addRepomixContext(
+				systemPrompt,
+				context,
+				budget,
+			);
 		}
 
-		systemPrompt += this.getResponseFormatInstructions();
 		return systemPrompt;
 	}
 
 	protected async addRepomixContext(
 		systemPrompt: string,
 		context: ReviewContext,
+		budget: TokenBudgetService,
 	): Promise<string> {
 		core.info(
 			"Using Repomix to pack repository for more comprehensive code review",
 		);
-		const packedRepo = await this.repomixService.packRepository(context);
+		// The repository is packed once and shared by every batch and project of the run
+		this.packedRepo ??= this.repomixService.packRepository(context);
+		const packedRepo = await this.packedRepo;
 		if (packedRepo && !packedRepo.startsWith("Failed")) {
+			const fittedRepo = budget.fitRepositoryContext(packedRepo, systemPrompt);
+			if (!fittedRepo) {
+				return systemPrompt;
+			}
 			core.info("Adding packed repository to the prompt");
-			return `${systemPrompt}\n\n# Full Repository Context\n\n${packedRepo}`;
+			return `${systemPrompt}\n\n# Full Repository Context\n\n${fittedRepo}`;
 		}
 		core.warning(
 			"Failed to pack repository with Repomix, falling back to basic review",
@@ -61,6 +565,25 @@ export class ClaudeService {
 		return systemPrompt;
 	}
 
+	protected getToolInstructions(): string {
+		return `\n\n# Response Format Instructions
+
+Submit your review by calling the \`${REVIEW_TOOL.name}\` tool exactly once.
+
+## Key Requirements
+
+1. **Focus:** Address only 3-5 most important issues
+2. **Priority:** Label each comment as "critical", "high", "medium", or "low"
+3. **Comments:** Format your comment bodies with markdown:
+   - Use code blocks with syntax highlighting
+   - Use bullet points and formatting
+   - Do NOT include priority text in comments (use the priority field)
+4. **Lines:** Use the line numbers shown before each diff line. Set "side" to "LEFT" with the old line number only when commenting on a removed line
+5. **Ranges:** When an issue spans several lines, such as a whole method, set "startLine" and "endLine" to its first and last line and "line" to the last line. The range must lie within one diff hunk
+6. **Suggestions:** When the fix is a concrete edit of the commented lines, put the replacement code for exactly those lines in "suggestion" (keep the indentation, no code fences) instead of a Before/After example in the body. Only use it on RIGHT-side comments
+7. **Language:** Write the summary and every comment body in ${this.messages.languageName}`;
+	}
+
 	protected getResponseFormatInstructions(): string {
 		return `\n\n# Response Format Instructions
 
@@ -73,8 +596,12 @@ You must respond with ONLY a JSON object inside a code block. No other text allo
     {
       "path": "file/path.ext",
       "line": 42,
+      "startLine": 38,
+      "endLine": 42,
+      "side": "RIGHT|LEFT",
       "priority": "critical|high|medium|low",
-      "body": "Comment with markdown formatting"
+      "body": "Comment with markdown formatting",
+      "suggestion": "Optional replacement code for the commented lines"
     }
   ]
 }
@@ -89,30 +616,34 @@ You must respond with ONLY a JSON object inside a code block. No other text allo
    - Use code blocks with syntax highlighting
    - Use bullet points and formatting
    - Do NOT include priority text in comments (use the priority field)
+5. **Lines:** Use the line numbers shown before each diff line. Set "side" to "LEFT" with the old line number only when commenting on a removed line, otherwise use "RIGHT"
+6. **Ranges:** "startLine" and "endLine" are optional. When an issue spans several lines, such as a whole method, set them to its first and last line and "line" to the last line. The range must lie within one diff hunk
+7. **Suggestions:** "suggestion" is optional. When the fix is a concrete edit of the commented lines, put the replacement code for exactly those lines in it (keep the indentation, no code fences) instead of a Before/After example in the body. Only use it on RIGHT-side comments
 
 ## Formatting Guidelines
 
 - Properly escape JSON characters: \\" for quotes, \\n for newlines, \\\` for backticks
 - For code blocks use triple backticks with language: \\\`\\\`\\\`language
 - Use UTF-8 for Korean or other non-Latin characters without extra escaping
+- Write the summary and every comment body in ${this.messages.languageName}
 
 ## Example
 
 \`\`\`json
 {
-  "summary": "코드는 잘 작성되었지만 몇 가지 중요한 이슈가 있습니다:\\n\\n- 일부 함수명이 명확하지 않음\\n- 오류 처리 개선 필요\\n- 성능 이슈",
+  "summary": "${this.messages.prompt.exampleSummary}",
   "comments": [
     {
       "path": "src/utils.ts",
       "line": 42,
       "priority": "high",
-      "body": "함수 이름을 더 명확하게 변경하세요:\\n\\n\\\`\\\`\\\`typescript\\n// Before\\nfunction process(data) { ... }\\n\\n// After\\nfunction validateUserInput(data) { ... }\\n\\\`\\\`\\\`"
+      "body": "${this.messages.prompt.exampleRenameComment}\\n\\n\\\`\\\`\\\`typescript\\n// Before\\nfunction process(data) { ... }\\n\\n// After\\nfunction validateUserInput(data) { ... }\\n\\\`\\\`\\\`"
     },
     {
       "path": "src/models.ts",
       "line": 57,
       "priority": "critical",
-      "body": "예외 처리가 부족합니다. try/catch를 추가하세요."
+      "body": "${this.messages.prompt.exampleErrorComment}"
     }
   ]
 }
@@ -121,27 +652,178 @@ You must respond with ONLY a JSON object inside a code block. No other text allo
 Ensure your output is valid JSON and follows this exact structure.`;
 	}
 
-	protected async callClaudeApi(systemPrompt: string): Promise<string> {
+	/**
+	 * Requests the review as JSON text. When the response hits the output token limit,
+	 * the partial answer is sent back as an assistant prefill so Claude continues where it stopped.
+	 */
+	protected async callClaudeApi(
+		systemPrompt: string,
+	): Promise<ClaudeTextResponse> {
 		core.debug(`Using model: ${this.options.model}`);
 		core.debug(`System prompt length: ${systemPrompt.length} characters`);
 		core.debug(`System prompt: ${systemPrompt}`);
 
-		const message = await this.client.messages.create({
-			model: this.options.model,
-			max_tokens: 4000,
-			system: systemPrompt,
-			messages: [
+		const maxTokens = this.maxOutputTokens;
+		let responseText = "";
+		let continuations = 0;
+
+		while (true) {
+			const messages: Anthropic.MessageParam[] = [
 				{
 					role: "user",
-					content:
-						"제공된 모든 변경사항을 검토하고 포괄적이면서도 간결한 코드 리뷰를 제공해주세요. 중요한 이슈에 집중하고, 구체적인 개선 제안을 코드 예시와 함께 제공해주세요. 변경된 파일과 관련 파일들 간의 잠재적 영향도 분석해주세요. 반드시 지정된 형식(summary와 comments 필드만 포함)의 JSON 형태로 응답해주세요.",
+					content: this.messages.prompt.userMessage,
 				},
-			],
-		});
+			];
+			if (responseText) {
+				messages.push({ role: "assistant", content: responseText });
+			}
+
+			const message = await this.sendMessage({
+				model: this.options.model,
+				max_tokens: maxTokens,
+				system: systemPrompt,
+				messages,
+			});
+			responseText += this.getResponseText(message);
+
+			if (message.stop_reason !== "max_tokens") {
+				core.debug(`Claude response: ${responseText}`);
+				return { text: responseText, continuations, complete: true };
+			}
+
+			if (continuations >= MAX_CONTINUATIONS) {
+				core.warning(
+					`Claude response is still incomplete after ${continuations} continuations`,
+				);
+				return { text: responseText, continuations, complete: false };
+			}
+
+			continuations++;
+			core.info(
+				`Claude response hit the ${maxTokens} output token limit, requesting continuation ${continuations}/${MAX_CONTINUATIONS}`,
+			);
+			// The API rejects an assistant prefill that ends with whitespace
+			responseText = responseText.trimEnd();
+		}
+	}
+
+	/**
+	 * Requests the review through the review tool and returns its input as the review.
+	 * Returns null when the request is rejected so the caller can fall back to JSON text output.
+	 */
+	protected async requestToolReview(
+		systemPrompt: string,
+	): Promise<StructuredReview | null> {
+		core.debug(`Using model: ${this.options.model}`);
+		core.debug(`System prompt length: ${systemPrompt.length} characters`);
+
+		let message: Anthropic.Message;
+		try {
+			message = await this.sendMessage({
+				model: this.options.model,
+				max_tokens: this.maxOutputTokens,
+				system: systemPrompt + this.getToolInstructions(),
+				tools: [REVIEW_TOOL],
+				tool_choice: { type: "tool", name: REVIEW_TOOL.name },
+				messages: [
+					{
+						role: "user",
+						content: this.messages.prompt.toolUserMessage,
+					},
+				],
+			});
+		} catch (error) {
+			// A 400 means the model or endpoint rejected the tool definition
+			if (error instanceof Error && "status" in error && error.status === 400) {
+				core.warning(
+					`Tool use request was rejected (${error.message}), falling back to JSON text output`,
+				);
+				return null;
+			}
+			throw error;
+		}
+
+		// A truncated tool input cannot be continued, so retry with JSON text output which can
+		if (message.stop_reason === "max_tokens") {
+			core.warning(
+				"Tool use response hit the output token limit, falling back to JSON text output",
+			);
+			return null;
+		}
+
+		const toolUse = message.content.find(
+			(block): block is Anthropic.ToolUseBlock =>
+				block.type === "tool_use" && block.name === REVIEW_TOOL.name,
+		);
+
+		if (!toolUse) {
+			// Without a tool call the answer may still hold the review as JSON text
+			core.warning(
+				"Claude did not call the review tool, parsing the text response instead",
+			);
+			return this.parseClaudeResponse(this.getResponseText(message));
+		}
+
+		core.debug(`Claude tool input: ${JSON.stringify(toolUse.input)}`);
+		return this.filterReviewComments(this.parseReviewObject(toolUse.input));
+	}
+
+	private async sendMessage(
+		params: Anthropic.MessageCreateParamsNonStreaming,
+	): Promise<Anthropic.Message> {
+		// Streaming lifts the SDK's timeout limit on requests with large output budgets
+		const message = await this.client.messages.stream(params).finalMessage();
+		this.usage.inputTokens += message.usage.input_tokens;
+		this.usage.outputTokens += message.usage.output_tokens;
+		return message;
+	}
+
+	/**
+	 * Uses the configured output token limit, capped at what the model accepts
+	 */
+	private resolveMaxOutputTokens(): number {
+		const modelLimit = getModelMaxOutputTokens(this.options.model);
+		const configured = this.options.maxOutputTokens;
+
+		if (!configured) {
+			return modelLimit;
+		}
+		if (configured > modelLimit) {
+			core.warning(
+				`max-output-tokens ${configured} exceeds the ${modelLimit} limit of ${this.options.model}, using ${modelLimit}`,
+			);
+			return modelLimit;
+		}
+		return configured;
+	}
+
+	/**
+	 * Notes in the summary when the response had to be continued or stayed cut off
+	 */
+	private addCompletionNote(
+		review: StructuredReview,
+		response: ClaudeTextResponse,
+	): StructuredReview {
+		if (!response.complete) {
+			return {
+				...review,
+				summary: `${review.summary}\n\n_${this.messages.review.responseIncompleteNote(response.continuations)}_`,
+			};
+		}
+		if (response.continuations > 0) {
+			return {
+				...review,
+				summary: `${review.summary}\n\n_${this.messages.review.responseContinuedNote(response.continuations)}_`,
+			};
+		}
+		return review;
+	}
 
-		const responseText = message.content[0].text;
-		core.debug(`Claude response: ${responseText}`);
-		return responseText;
+	private getResponseText(message: Anthropic.Message): string {
+		return message.content
+			.filter((block): block is Anthropic.TextBlock => block.type === "text")
+			.map((block) => block.text)
+			.join("");
 	}
 
 	protected async parseClaudeResponse(
@@ -179,18 +861,27 @@ Ensure your output is valid JSON and follows this exact structure.`;
 		const sanitizedJson = this.sanitizeJsonString(jsonString);
 		core.debug(`Sanitized JSON string: ${sanitizedJson}`); // Add debug log
 
-		const review = JSON.parse(sanitizedJson);
+		return this.parseReviewObject(JSON.parse(sanitizedJson));
+	}
 
-		if (!review.summary || !Array.isArray(review.comments)) {
-			const availableFields = Object.keys(review).join(", ");
+	/**
+	 * Validates a parsed review, keeping only 'summary' and 'comments' and sanitizing each comment
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: The review comes from JSON.parse or tool input
+	protected parseReviewObject(review: any): StructuredReview {
+		if (
+			!review ||
+			typeof review.summary !== "string" ||
+			!Array.isArray(review.comments)
+		) {
+			const availableFields = review ? Object.keys(review).join(", ") : "";
 			throw new Error(
 				`Invalid review structure. Available fields: ${availableFields}. Expected 'summary' and 'comments'.`,
 			);
 		}
 
 		const expectedFields = ["summary", "comments"];
-		const actualFields = Object.keys(review);
-		const unexpectedFields = actualFields.filter(
+		const unexpectedFields = Object.keys(review).filter(
 			(key) => !expectedFields.includes(key),
 		);
 
@@ -198,18 +889,13 @@ Ensure your output is valid JSON and follows this exact structure.`;
 			core.warning(
 				`Unexpected fields found in Claude response: ${unexpectedFields.join(", ")}. Keeping only 'summary' and 'comments'.`,
 			);
-			return {
-				summary: review.summary,
-				comments: Array.isArray(review.comments)
-					? review.comments.map(this.sanitizeComment)
-					: [], // Sanitize individual comments
-			};
 		}
 
-		// Sanitize individual comment bodies even if structure is correct
 		return {
 			summary: review.summary,
-			comments: review.comments.map(this.sanitizeComment),
+			comments: review.comments.map((comment: unknown) =>
+				this.sanitizeComment(comment),
+			),
 		};
 	}
 
@@ -244,11 +930,39 @@ Ensure your output is valid JSON and follows this exact structure.`;
 		return {
 			path: comment.path,
 			line: comment.line,
-			priority: comment.priority,
+			side: COMMENT_SIDES.includes(comment.side) ? comment.side : undefined,
+			...this.sanitizeRange(comment),
+			suggestion:
+				typeof comment.suggestion === "string" ? comment.suggestion : undefined,
+			priority: COMMENT_PRIORITIES.includes(comment.priority)
+				? comment.priority
+				: undefined,
 			body: body,
 		};
 	}
 
+	/**
+	 * Keeps a line range only when it is well formed, so malformed ranges fall back to `line`
+	 */
+	private sanitizeRange(comment: {
+		line: number;
+		startLine?: unknown;
+		endLine?: unknown;
+	}): Pick<ReviewComment, "startLine" | "endLine"> {
+		const startLine = comment.startLine;
+		const endLine = comment.endLine ?? comment.line;
+
+		if (
+			!Number.isInteger(startLine) ||
+			!Number.isInteger(endLine) ||
+			(startLine as number) <= 0 ||
+			(startLine as number) >= (endLine as number)
+		) {
+			return {};
+		}
+		return { startLine: startLine as number, endLine: endLine as number };
+	}
+
 	/**
 	 * Cleans the JSON string *before* parsing.
 	 * Focuses ONLY on fixing common non-standard escaping issues or structural anomalies
@@ -356,40 +1070,16 @@ Ensure your output is valid JSON and follows this exact structure.`;
 					.replace(/\\`\\`\\`/g, "```")
 			: "Fallback: Could not parse summary.";
 
-		const comments: ReviewComment[] = [];
-		// Regex to find comment objects - might be fragile
+		// Regex to find the comments array - might be fragile
 		const commentBlockMatch = potentiallyFixableJson.match(
 			/"comments"\s*:\s*\[([\s\S]*)\]/,
 		);
-		if (commentBlockMatch?.[1]) {
-			const commentObjectsRegex =
-				/\{\s*"path"\s*:\s*"((?:\\.|[^"\\])*)"\s*,\s*"line"\s*:\s*(\d+)\s*,\s*"body"\s*:\s*"((?:\\.|[^"\\])*)"\s*\}/g;
-			let match: RegExpExecArray | null;
-			match = commentObjectsRegex.exec(commentBlockMatch[1]);
-			while (match !== null) {
-				try {
-					const body = match[3]
-						.replace(/\\n/g, "\n")
-						.replace(/\\"/g, '"')
-						// Handle potential escaped backticks AFTER primary unescaping
-						.replace(/\\`\\`\\`/g, "```")
-						.replace(/\\`/g, "`")
-						// Re-apply the fix for language identifiers on new lines
-						.replace(/\n([a-z]+)\n(\s*[^`\s])/g, "\n```$1\n$2");
-
-					comments.push({
-						path: match[1].replace(/\\\\/g, "\\"), // Handle escaped backslashes in path
-						line: Number.parseInt(match[2], 10),
-						body: body,
-					});
-				} catch (e) {
-					core.warning(
-						`Error parsing individual comment in alternative method: ${e}`,
-					);
-				}
-				match = commentObjectsRegex.exec(commentBlockMatch[1]);
-			}
-		}
+		const comments = commentBlockMatch?.[1]
+			? this.extractCommentsWithRegex(
+					commentBlockMatch[1],
+					"alternative method",
+				)
+			: [];
 
 		if (!summaryMatch && comments.length === 0) {
 			throw new Error("Alternative parsing failed to extract any useful data.");
@@ -418,35 +1108,10 @@ Ensure your output is valid JSON and follows this exact structure.`;
 						.replace(/\\`\\`\\`/g, "```")
 				: "Fallback: Could not parse summary.";
 
-			const comments: ReviewComment[] = [];
-			// Extract comment objects (more forgiving regex)
-			const commentRegex =
-				/\{\s*"path"\s*:\s*"((?:\\.|[^"\\])*)"\s*,\s*"line"\s*:\s*(\d+)\s*,\s*"body"\s*:\s*"((?:\\.|[^"\\])*)"\s*\}/g;
-			let match: RegExpExecArray | null;
-			match = commentRegex.exec(rawResponseText);
-			while (match !== null) {
-				try {
-					const body = match[3]
-						.replace(/\\n/g, "\n")
-						.replace(/\\"/g, '"')
-						// Handle potential escaped backticks AFTER primary unescaping
-						.replace(/\\`\\`\\`/g, "```")
-						.replace(/\\`/g, "`")
-						// Re-apply the fix for language identifiers on new lines
-						.replace(/\n([a-z]+)\n(\s*[^`\s])/g, "\n```$1\n$2");
-
-					comments.push({
-						path: match[1].replace(/\\\\/g, "\\"), // Handle escaped backslashes in path
-						line: Number.parseInt(match[2], 10),
-						body: body,
-					});
-				} catch (e) {
-					core.warning(
-						`Error parsing individual comment in manual fallback: ${e}`,
-					);
-				}
-				match = commentRegex.exec(rawResponseText);
-			}
+			const comments = this.extractCommentsWithRegex(
+				rawResponseText,
+				"manual fallback",
+			);
 
 			core.info(
 				`Manual fallback extracted summary and ${comments.length} comments.`,
@@ -469,6 +1134,77 @@ Ensure your output is valid JSON and follows this exact structure.`;
 		}
 	}
 
+	/**
+	 * Extracts comment objects field by field, so every field survives regardless of key order
+	 */
+	private extractCommentsWithRegex(
+		text: string,
+		method: string,
+	): ReviewComment[] {
+		const comments: ReviewComment[] = [];
+		// Each chunk starts at an object brace followed by one of the comment keys
+		const chunks = text
+			.split(
+				/(?=\{\s*"(?:path|line|startLine|endLine|side|priority|body|suggestion)"\s*:)/,
+			)
+			.slice(1);
+
+		for (const chunk of chunks) {
+			try {
+				const pathMatch = chunk.match(/"path"\s*:\s*"((?:\\.|[^"\\])*)"/);
+				const lineMatch = chunk.match(/"line"\s*:\s*(\d+)/);
+				const bodyMatch = chunk.match(/"body"\s*:\s*"((?:\\.|[^"\\])*)"/);
+				const priorityMatch = chunk.match(
+					/"priority"\s*:\s*"(critical|high|medium|low)"/,
+				);
+				const sideMatch = chunk.match(/"side"\s*:\s*"(LEFT|RIGHT)"/);
+				const startLineMatch = chunk.match(/"startLine"\s*:\s*(\d+)/);
+				const endLineMatch = chunk.match(/"endLine"\s*:\s*(\d+)/);
+				const suggestionMatch = chunk.match(
+					/"suggestion"\s*:\s*"((?:\\.|[^"\\])*)"/,
+				);
+				if (!pathMatch || !lineMatch || !bodyMatch) {
+					continue;
+				}
+
+				const body = bodyMatch[1]
+					.replace(/\\n/g, "\n")
+					.replace(/\\"/g, '"')
+					// Handle potential escaped backticks AFTER primary unescaping
+					.replace(/\\`\\`\\`/g, "```")
+					.replace(/\\`/g, "`")
+					// Re-apply the fix for language identifiers on new lines
+					.replace(/\n([a-z]+)\n(\s*[^`\s])/g, "\n```$1\n$2");
+
+				comments.push({
+					path: pathMatch[1].replace(/\\\\/g, "\\"), // Handle escaped backslashes in path
+					line: Number.parseInt(lineMatch[1], 10),
+					side: sideMatch?.[1] as ReviewComment["side"],
+					...this.sanitizeRange({
+						line: Number.parseInt(lineMatch[1], 10),
+						startLine: startLineMatch
+							? Number.parseInt(startLineMatch[1], 10)
+							: undefined,
+						endLine: endLineMatch
+							? Number.parseInt(endLineMatch[1], 10)
+							: undefined,
+					}),
+					priority: priorityMatch?.[1] as ReviewComment["priority"],
+					body,
+					suggestion: suggestionMatch?.[1]
+						.replace(/\\n/g, "\n")
+						.replace(/\\t/g, "\t")
+						.replace(/\\"/g, '"')
+						.replace(/\\\\/g, "\\"),
+				});
+			} catch (e) {
+				core.warning(`Error parsing individual comment in ${method}: ${e}`);
+			}
+		}
+
+		return comments;
+	}
+
 	/**
 	 * Filter and prioritize comments based on user preferences
 	 */
@@ -482,16 +1218,18 @@ Ensure your output is valid JSON and follows this exact structure.`;
 			return this.getCommentPriority(b) - this.getCommentPriority(a);
 		});
 
-		// Filter by priority level if specified
-		let filteredComments = sortedComments;
-		if (this.options.commentPriority) {
-			const minPriority = this.getMinPriorityLevel(
-				this.options.commentPriority,
+		// Filter by priority level if specified, honoring per-path overrides
+		let filteredComments = sortedComments.filter((comment) => {
+			const { commentPriority } = resolveOptionsForPath(
+				this.options,
+				comment.path,
 			);
-			filteredComments = sortedComments.filter(
-				(comment) => this.getCommentPriority(comment) >= minPriority,
+			return (
+				!commentPriority ||
+				this.getCommentPriority(comment) >=
+					this.getMinPriorityLevel(commentPriority)
 			);
-		}
+		});
 
 		// Limit number of comments if specified
 		if (this.options.maxComments && this.options.maxComments > 0) {
@@ -502,7 +1240,7 @@ Ensure your output is valid JSON and follows this exact structure.`;
 		let summary = review.summary;
 		if (filteredComments.length < review.comments.length) {
 			const removedCount = review.comments.length - filteredComments.length;
-			summary = `${summary}\n\n_참고: ${review.comments.length}개 중 ${filteredComments.length}개의 주요 코멘트만 표시되었습니다. ${removedCount}개의 낮은 우선순위 코멘트는 필터링되었습니다._`;
+			summary = `${summary}\n\n_${this.messages.review.filteredCommentsNote(review.comments.length, filteredComments.length, removedCount)}_`;
 		}
 
 		return {
@@ -535,9 +1273,7 @@ Ensure your output is valid JSON and follows this exact structure.`;
 	/**
 	 * Get minimum priority level based on user preference
 	 */
-	private getMinPriorityLevel(
-		priority: "all" | "medium" | "high" | "critical",
-	): number {
+	private getMinPriorityLevel(priority: CommentPriorityFilter): number {
 		switch (priority) {
 			case "critical":
 				return 3;
@@ -0,0 +1,149 @@
+import * as core from "@actions/core";
+import type { Messages } from "../i18n";
+import type { LoxopsCommand, ReviewRunner } from "../types";
+import { parseCommand } from "../utils/command";
+import type { ClaudeService } from "./claude";
+import type { GitHubService } from "./github";
+
+// Lines of code shown to Claude above and below the line to explain
+const EXPLAIN_CONTEXT_LINES = 20;
+
+export class CommandHandlerService {
+	private githubService: GitHubService;
+	private claudeService: ClaudeService;
+	private reviewRunner: ReviewRunner;
+	private messages: Messages;
+
+	constructor(
+		githubService: GitHubService,
+		claudeService: ClaudeService,
+		reviewRunner: ReviewRunner,
+		messages: Messages,
+	) {
+		this.githubService = githubService;
+		this.claudeService = claudeService;
+		this.reviewRunner = reviewRunner;
+		this.messages = messages;
+	}
+
+	/**
+	 * Runs the `/loxops` command of the comment that triggered the workflow, reacting to the
+	 * comment to acknowledge it. Only users with write access can run commands.
+	 * Returns whether a command was run.
+	 */
+	async handleCommand(): Promise<boolean> {
+		const comment = this.githubService.getCommandComment();
+		const command = comment && parseCommand(comment.body);
+		if (!comment || !command) {
+			core.info("The comment does not contain a Loxops command");
+			return false;
+		}
+
+		if (!(await this.githubService.hasWriteAccess(comment.author))) {
+			core.warning(
+				`Ignoring the command of ${comment.author}, who has no write access`,
+			);
+			await this.githubService.addReaction(comment.id, "-1");
+			return false;
+		}
+
+		await this.githubService.addReaction(comment.id, "eyes");
+		core.info(`Running the ${command.name} command of ${comment.author}`);
+
+		try {
+			await this.runCommand(command, comment.pullRequestNumber, comment.author);
+		} catch (error) {
+			await this.githubService.addReaction(comment.id, "confused");
+			throw error;
+		}
+		return true;
+	}
+
+	private async runCommand(
+		command: LoxopsCommand,
+		prNumber: number,
+		author: string,
+	): Promise<void> {
+		switch (command.name) {
+			case "review": {
+				const { context, review } = await this.reviewRunner.generateReview(
+					command.paths,
+				);
+				await this.reviewRunner.publishReview(
+					context,
+					review,
+					command.paths.length > 0 ? undefined : context.headSha,
+				);
+				break;
+			}
+			case "summary": {
+				const { context, review } = await this.reviewRunner.generateReview();
+				await this.githubService.createReviewWithComments(
+					prNumber,
+					{ ...review, comments: [] },
+					{ skippedFiles: context.skippedFiles },
+				);
+				break;
+			}
+			case "explain":
+				await this.explain(prNumber, command.path, command.line);
+				break;
+			case "ignore": {
+				const matches = await this.githubService.ignoreFinding(
+					prNumber,
+					command.fingerprint,
+					author,
+				);
+				if (matches === 0) {
+					await this.githubService.createReviewComment(
+						prNumber,
+						this.messages.command.findingNotFound(command.fingerprint),
+					);
+				} else if (matches > 1) {
+					await this.githubService.createReviewComment(
+						prNumber,
+						this.messages.command.findingAmbiguous(
+							command.fingerprint,
+							matches,
+						),
+					);
+				}
+				break;
+			}
+			case "help":
+				await this.githubService.createReviewComment(
+					prNumber,
+					this.messages.command.usage,
+				);
+				break;
+		}
+	}
+
+	/**
+	 * Posts Claude's explanation of a line of the head commit, shown with the code around it
+	 */
+	private async explain(
+		prNumber: number,
+		path: string,
+		line: number,
+	): Promise<void> {
+		const pr = await this.githubService.getPullRequestDetails();
+		const lines = (
+			await this.githubService.getFileContent(path, pr.head.sha)
+		).split("\n");
+		if (line > lines.length) {
+			throw new Error(`${path} has no line ${line}`);
+		}
+
+		const start = Math.max(0, line - 1 - EXPLAIN_CONTEXT_LINES);
+		const code = lines
+			.slice(start, line + EXPLAIN_CONTEXT_LINES)
+			.map((text, index) => `${start + index + 1}: ${text}`)
+			.join("\n");
+		const explanation = await this.claudeService.explainCode(path, line, code);
+		await this.githubService.createReviewComment(
+			prNumber,
+			`### ${this.messages.command.explanationHeading(`${path}:${line}`)}\n\n${explanation}`,
+		);
+	}
+}
@@ -0,0 +1,457 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as core from "@actions/core";
+import ignore from "ignore";
+import {
+	LineCounter,
+	type Node,
+	type Pair,
+	type Scalar,
+	isMap,
+	isScalar,
+	isSeq,
+	parseDocument,
+} from "yaml";
+import { REVIEW_LANGUAGES } from "../i18n";
+import type {
+	AreaLabel,
+	PathOverride,
+	ProjectConfig,
+	ReviewOptions,
+} from "../types";
+
+/**
+ * Options that can be set from the repository configuration file
+ */
+export type RepositoryConfig = Partial<ReviewOptions>;
+
+type FieldSchema =
+	| { type: "string"; values?: readonly string[] }
+	| { type: "boolean" }
+	| { type: "integer"; min: number }
+	| { type: "number"; min: number }
+	| { type: "string-list" };
+
+const PROJECT_TYPES = [
+	"unity",
+	"springboot",
+	"android",
+	"nextjs",
+	"fastapi",
+	"auto",
+] as const;
+
+const COMMENT_PRIORITIES = ["all", "medium", "high", "critical"] as const;
+
+export const SUMMARY_COMMENT_MODES = ["update", "append"] as const;
+
+export const THREAD_RESOLUTION_MODES = ["off", "code", "claude"] as const;
+
+export const FAIL_ON_PRIORITIES = [
+	"none",
+	"critical",
+	"high",
+	"medium",
+	"low",
+] as const;
+
+export const REVIEW_EVENT_POLICIES = [
+	"comment",
+	"request-changes",
+	"approve",
+] as const;
+
+export const OUTPUT_MODES = ["comments", "check-run", "both"] as const;
+
+export const WALKTHROUGH_MODES = ["off", "description", "summary"] as const;
+
+/**
+ * Top-level keys mirror the action inputs so a workflow can be moved into the file as-is
+ */
+const CONFIG_SCHEMA: Record<string, [keyof ReviewOptions, FieldSchema]> = {
+	"project-type": ["projectType", { type: "string", values: PROJECT_TYPES }],
+	"file-extensions": ["fileExtensions", { type: "string-list" }],
+	"exclude-patterns": ["excludePatterns", { type: "string-list" }],
+	"find-related-files": ["findRelatedFiles", { type: "boolean" }],
+	"max-files": ["maxFiles", { type: "integer", min: 0 }],
+	model: ["model", { type: "string" }],
+	"use-repomix": ["useRepomix", { type: "boolean" }],
+	"max-comments": ["maxComments", { type: "integer", min: 1 }],
+	"max-output-tokens": ["maxOutputTokens", { type: "integer", min: 1 }],
+	"max-batches": ["maxBatches", { type: "integer", min: 1 }],
+	"max-cost": ["maxCost", { type: "number", min: 0 }],
+	"comment-priority": [
+		"commentPriority",
+		{ type: "string", values: COMMENT_PRIORITIES },
+	],
+	monorepo: ["monorepo", { type: "boolean" }],
+	"review-language": [
+		"reviewLanguage",
+		{ type: "string", values: REVIEW_LANGUAGES },
+	],
+	"summary-comment-mode": [
+		"summaryCommentMode",
+		{ type: "string", values: SUMMARY_COMMENT_MODES },
+	],
+	"resolve-threads": [
+		"resolveThreads",
+		{ type: "string", values: THREAD_RESOLUTION_MODES },
+	],
+	"fail-on-priority": [
+		"failOnPriority",
+		{ type: "string", values: FAIL_ON_PRIORITIES },
+	],
+	"review-event-policy": [
+		"reviewEventPolicy",
+		{ type: "string", values: REVIEW_EVENT_POLICIES },
+	],
+	"output-mode": ["outputMode", { type: "string", values: OUTPUT_MODES }],
+	"max-thread-replies": ["maxThreadReplies", { type: "integer", min: 0 }],
+	"skip-drafts": ["skipDrafts", { type: "boolean" }],
+	"skip-labels": ["skipLabels", { type: "string-list" }],
+	"force-labels": ["forceLabels", { type: "string-list" }],
+	"skip-authors": ["skipAuthors", { type: "string-list" }],
+	"skip-bots": ["skipBots", { type: "boolean" }],
+	"base-branches": ["baseBranches", { type: "string-list" }],
+	"skip-head-branches": ["skipHeadBranches", { type: "string-list" }],
+	"max-changed-lines": ["maxChangedLines", { type: "integer", min: 1 }],
+	"post-skip-notice": ["postSkipNotice", { type: "boolean" }],
+	"auto-label": ["autoLabel", { type: "boolean" }],
+	"sensitive-paths": ["sensitivePaths", { type: "string-list" }],
+	walkthrough: ["walkthrough", { type: "string", values: WALKTHROUGH_MODES }],
+};
+
+const OVERRIDE_SCHEMA: Record<string, [keyof PathOverride, FieldSchema]> = {
+	paths: ["paths", { type: "string-list" }],
+	"file-extensions": ["fileExtensions", { type: "string-list" }],
+	"exclude-patterns": ["excludePatterns", { type: "string-list" }],
+	"comment-priority": [
+		"commentPriority",
+		{ type: "string", values: COMMENT_PRIORITIES },
+	],
+};
+
+const AREA_LABEL_SCHEMA: Record<string, [keyof AreaLabel, FieldSchema]> = {
+	label: ["label", { type: "string" }],
+	paths: ["paths", { type: "string-list" }],
+};
+
+const PROJECT_SCHEMA: Record<string, [keyof ProjectConfig, FieldSchema]> = {
+	name: ["name", { type: "string" }],
+	paths: ["paths", { type: "string-list" }],
+	"project-type": ["projectType", { type: "string", values: PROJECT_TYPES }],
+};
+
+export class ConfigService {
+	private workspace: string;
+
+	constructor(workspace: string) {
+		this.workspace = workspace;
+	}
+
+	/**
+	 * Loads the configuration file from the checked-out repository.
+	 * Returns null when the file does not exist and throws when it is invalid.
+	 */
+	loadConfig(configPath: string): RepositoryConfig | null {
+		const fullPath = path.resolve(this.workspace, configPath);
+
+		if (!fs.existsSync(fullPath)) {
+			core.info(`No configuration file found at ${configPath}, using inputs`);
+			return null;
+		}
+
+		core.info(`Loading configuration from ${configPath}`);
+		return this.parseConfig(fs.readFileSync(fullPath, "utf8"), configPath);
+	}
+
+	parseConfig(source: string, configPath: string): RepositoryConfig {
+		const lineCounter = new LineCounter();
+		const document = parseDocument(source, { lineCounter });
+		const errors: string[] = [];
+
+		for (const error of document.errors) {
+			const line = error.linePos?.[0].line;
+			errors.push(
+				`${line ? `line ${line}: ` : ""}${error.message.split("\n")[0]}`,
+			);
+		}
+
+		const config: RepositoryConfig = {};
+		const root = document.contents;
+
+		if (errors.length === 0 && root !== null) {
+			const lineOf = (node: unknown): number => {
+				const range = (node as Node | null)?.range;
+				return range ? lineCounter.linePos(range[0]).line : 1;
+			};
+
+			if (!isMap(root)) {
+				errors.push(`line ${lineOf(root)}: configuration must be a mapping`);
+			} else {
+				for (const pair of root.items) {
+					const key = this.getKey(pair);
+
+					if (key === "overrides") {
+						config.overrides = this.parseEntries<PathOverride>(
+							key,
+							pair,
+							OVERRIDE_SCHEMA,
+							["paths"],
+							lineOf,
+							errors,
+						);
+						continue;
+					}
+
+					if (key === "projects") {
+						config.projects = this.parseEntries<ProjectConfig>(
+							key,
+							pair,
+							PROJECT_SCHEMA,
+							["paths", "project-type"],
+							lineOf,
+							errors,
+						);
+						continue;
+					}
+
+					if (key === "area-labels") {
+						config.areaLabels = this.parseEntries<AreaLabel>(
+							key,
+							pair,
+							AREA_LABEL_SCHEMA,
+							["label", "paths"],
+							lineOf,
+							errors,
+						);
+						continue;
+					}
+
+					const field = CONFIG_SCHEMA[key];
+					if (!field) {
+						errors.push(`line ${lineOf(pair.key)}: unknown key "${key}"`);
+						continue;
+					}
+
+					const [option, schema] = field;
+					const value = this.parseValue(
+						key,
+						pair.value,
+						lineOf(pair.value ?? pair.key),
+						schema,
+						errors,
+					);
+					if (value !== undefined) {
+						(config as Record<string, unknown>)[option] = value;
+					}
+				}
+			}
+		}
+
+		if (errors.length > 0) {
+			throw new Error(
+				`Invalid configuration in ${configPath}:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+			);
+		}
+
+		return config;
+	}
+
+	/**
+	 * Merges the configuration file over the options built from action inputs
+	 */
+	mergeOptions(
+		options: ReviewOptions,
+		config: RepositoryConfig | null,
+	): ReviewOptions {
+		if (!config) {
+			return options;
+		}
+
+		return {
+			...options,
+			...config,
+			overrides: [...(options.overrides ?? []), ...(config.overrides ?? [])],
+		};
+	}
+
+	/**
+	 * Parses a list of mappings such as "overrides" or "projects" against its entry schema
+	 */
+	private parseEntries<T>(
+		name: string,
+		pair: Pair,
+		schema: Record<string, [keyof T, FieldSchema]>,
+		requiredKeys: string[],
+		lineOf: (node: unknown) => number,
+		errors: string[],
+	): T[] {
+		if (!isSeq(pair.value)) {
+			errors.push(
+				`line ${lineOf(pair.value ?? pair.key)}: "${name}" must be a list`,
+			);
+			return [];
+		}
+
+		const entries: T[] = [];
+
+		for (const item of pair.value.items) {
+			if (!isMap(item)) {
+				errors.push(
+					`line ${lineOf(item)}: each entry in "${name}" must be a mapping`,
+				);
+				continue;
+			}
+
+			const entry: Record<string, unknown> = {};
+			const seenKeys = new Set<string>();
+
+			for (const entryPair of item.items) {
+				const key = this.getKey(entryPair);
+				const field = schema[key];
+
+				if (!field) {
+					errors.push(
+						`line ${lineOf(entryPair.key)}: unknown key "${name}.${key}"`,
+					);
+					continue;
+				}
+
+				const [option, fieldSchema] = field;
+				const value = this.parseValue(
+					`${name}.${key}`,
+					entryPair.value,
+					lineOf(entryPair.value ?? entryPair.key),
+					fieldSchema,
+					errors,
+				);
+				if (value !== undefined) {
+					entry[option as string] = value;
+					seenKeys.add(key);
+				}
+			}
+
+			const missingKey = requiredKeys.find((key) => {
+				const value = entry[schema[key][0] as string];
+				return (
+					!seenKeys.has(key) || (Array.isArray(value) && value.length === 0)
+				);
+			});
+			if (missingKey) {
+				errors.push(
+					`line ${lineOf(item)}: "${name}.${missingKey}" is required and must not be empty`,
+				);
+				continue;
+			}
+
+			entries.push(entry as T);
+		}
+
+		return entries;
+	}
+
+	private parseValue(
+		key: string,
+		node: unknown,
+		line: number,
+		schema: FieldSchema,
+		errors: string[],
+	): unknown {
+		const value = isScalar(node) ? node.value : undefined;
+
+		switch (schema.type) {
+			case "string":
+				if (typeof value !== "string" || value.trim() === "") {
+					errors.push(`line ${line}: "${key}" must be a non-empty string`);
+					return undefined;
+				}
+				if (schema.values && !schema.values.includes(value)) {
+					errors.push(
+						`line ${line}: "${key}" must be one of ${schema.values.join(", ")} (got "${value}")`,
+					);
+					return undefined;
+				}
+				return value;
+
+			case "boolean":
+				if (typeof value !== "boolean") {
+					errors.push(`line ${line}: "${key}" must be true or false`);
+					return undefined;
+				}
+				return value;
+
+			case "integer":
+				if (
+					typeof value !== "number" ||
+					!Number.isInteger(value) ||
+					value < schema.min
+				) {
+					errors.push(
+						`line ${line}: "${key}" must be an integer >= ${schema.min}`,
+					);
+					return undefined;
+				}
+				return value;
+
+			case "number":
+				if (typeof value !== "number" || value < schema.min) {
+					errors.push(
+						`line ${line}: "${key}" must be a number >= ${schema.min}`,
+					);
+					return undefined;
+				}
+				return value;
+
+			case "string-list":
+				// Accept both YAML lists and the comma-separated form used by action inputs
+				if (typeof value === "string") {
+					return value
+						.split(",")
+						.map((item) => item.trim())
+						.filter(Boolean);
+				}
+				if (
+					isSeq(node) &&
+					node.items.every(
+						(item) => isScalar(item) && typeof item.value === "string",
+					)
+				) {
+					return node.items.map((item) =>
+						(item as Scalar<string>).value.trim(),
+					);
+				}
+				errors.push(`line ${line}: "${key}" must be a list of strings`);
+				return undefined;
+		}
+	}
+
+	private getKey(pair: Pair): string {
+		return isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+	}
+}
+
+/**
+ * Resolves the effective options for a file by applying every matching override in order
+ */
+export function resolveOptionsForPath(
+	options: ReviewOptions,
+	filepath: string,
+): ReviewOptions {
+	if (!options.overrides || options.overrides.length === 0) {
+		return options;
+	}
+
+	let resolved = options;
+
+	for (const override of options.overrides) {
+		if (!ignore().add(override.paths).ignores(filepath)) {
+			continue;
+		}
+
+		const { paths, ...settings } = override;
+		resolved = { ...resolved, ...settings };
+	}
+
+	return resolved;
+}
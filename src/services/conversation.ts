@@ -0,0 +1,83 @@
+import * as core from "@actions/core";
+import type { ReviewConversation } from "../types";
+import type { ClaudeService } from "./claude";
+import type { GitHubService } from "./github";
+
+// Lines of current code shown to Claude above and below the commented line
+const CODE_CONTEXT_LINES = 15;
+
+export class ConversationService {
+	private githubService: GitHubService;
+	private claudeService: ClaudeService;
+	private maxReplies: number;
+
+	constructor(
+		githubService: GitHubService,
+		claudeService: ClaudeService,
+		maxReplies: number,
+	) {
+		this.githubService = githubService;
+		this.claudeService = claudeService;
+		this.maxReplies = maxReplies;
+	}
+
+	/**
+	 * Answers a reply to a Loxops finding in its review thread, unless Loxops already replied
+	 * max-thread-replies times there. Returns whether a reply was posted.
+	 */
+	async replyToConversation(): Promise<boolean> {
+		const conversation = await this.githubService.getReviewConversation();
+		if (!conversation) {
+			core.info("The comment is not a reply in a Loxops review thread");
+			return false;
+		}
+
+		// The finding itself opens the thread and does not count as a reply
+		const replies =
+			conversation.messages.filter((message) => message.fromLoxops).length - 1;
+		if (replies >= this.maxReplies) {
+			core.info(
+				`Loxops already replied ${replies} times in the thread on ${conversation.path}, not replying again`,
+			);
+			return false;
+		}
+
+		const code = await this.getCodeAround(conversation);
+		const reply = await this.claudeService.replyInThread(conversation, code);
+		if (!reply) {
+			core.warning(`Claude returned an empty reply for ${conversation.path}`);
+			return false;
+		}
+
+		await this.githubService.replyInThread(
+			conversation.pullRequestNumber,
+			conversation.rootCommentId,
+			reply,
+		);
+		core.info(`Replied in the review thread on ${conversation.path}`);
+		return true;
+	}
+
+	/**
+	 * Returns the head version of the commented code with line numbers
+	 */
+	private async getCodeAround(
+		conversation: ReviewConversation,
+	): Promise<string> {
+		const lines = (
+			await this.githubService.getFileContent(
+				conversation.path,
+				conversation.headSha,
+			)
+		).split("\n");
+		const start = Math.max(
+			0,
+			(conversation.line ?? 1) - 1 - CODE_CONTEXT_LINES,
+		);
+
+		return lines
+			.slice(start, (conversation.line ?? 1) + CODE_CONTEXT_LINES)
+			.map((text, index) => `${start + index + 1}: ${text}`)
+			.join("\n");
+	}
+}
@@ -1,103 +1,356 @@
+import * as fs from "node:fs";
 import path from "node:path";
 import * as core from "@actions/core";
 import * as github from "@actions/github";
 import ignore from "ignore";
 import type {
+	DetectableProjectType,
 	FileChange,
+	ProjectDetectionResult,
 	RelatedFiles,
 	ReviewContext,
 	ReviewOptions,
 } from "../types";
+import { resolveOptionsForPath } from "./config";
+
+// Minimum score a project type needs before its template is used in auto mode
+const DETECTION_THRESHOLD = 5;
+const MAX_RULE_MATCHES = 3;
+const MANIFEST_WEIGHT = 8;
+
+const DETECTION_RULES: {
+	projectType: DetectableProjectType;
+	description: string;
+	weight: number;
+	path?: RegExp;
+	content?: RegExp;
+}[] = [
+	// File paths
+	{
+		projectType: "unity",
+		description: "Unity asset or assembly definition",
+		weight: 3,
+		path: /\.(unity|prefab|asmdef|asset|meta)$/,
+	},
+	{
+		projectType: "unity",
+		description: "file under Assets/",
+		weight: 2,
+		path: /(^|\/)Assets\//,
+	},
+	{
+		projectType: "unity",
+		description: "C# source file",
+		weight: 1,
+		path: /\.cs$/,
+	},
+	{
+		projectType: "springboot",
+		description: "Spring application properties",
+		weight: 3,
+		path: /(^|\/)application(-[\w-]+)?\.(properties|ya?ml)$/,
+	},
+	{
+		projectType: "springboot",
+		description: "Java source file",
+		weight: 1,
+		path: /\.java$/,
+	},
+	{
+		projectType: "android",
+		description: "AndroidManifest.xml",
+		weight: 5,
+		path: /(^|\/)AndroidManifest\.xml$/,
+	},
+	{
+		projectType: "android",
+		description: "Android resource file",
+		weight: 3,
+		path: /(^|\/)res\/(layout|values|drawable|navigation)[^/]*\//,
+	},
+	{
+		projectType: "android",
+		description: "Kotlin source file",
+		weight: 1,
+		path: /\.kt$/,
+	},
+	{
+		projectType: "nextjs",
+		description: "Next.js config",
+		weight: 5,
+		path: /(^|\/)next\.config\.(js|mjs|ts)$/,
+	},
+	{
+		projectType: "nextjs",
+		description: "page or app route component",
+		weight: 2,
+		path: /(^|\/)(pages|app)\/.*\.(tsx|jsx)$/,
+	},
+	{
+		projectType: "nextjs",
+		description: "React component file",
+		weight: 1,
+		path: /\.(tsx|jsx)$/,
+	},
+	{
+		projectType: "fastapi",
+		description: "Python source file",
+		weight: 1,
+		path: /\.py$/,
+	},
+	// Import statements and framework markers
+	{
+		projectType: "unity",
+		description: "imports UnityEngine",
+		weight: 3,
+		content: /^\s*using UnityEngine/m,
+	},
+	{
+		projectType: "unity",
+		description: "MonoBehaviour subclass",
+		weight: 2,
+		content: /:\s*MonoBehaviour\b/,
+	},
+	{
+		projectType: "springboot",
+		description: "imports Spring",
+		weight: 3,
+		content: /^\s*import org\.springframework/m,
+	},
+	{
+		projectType: "springboot",
+		description: "Spring annotations",
+		weight: 2,
+		content: /@(SpringBootApplication|RestController|Service|Repository)\b/,
+	},
+	{
+		projectType: "android",
+		description: "imports Android SDK",
+		weight: 3,
+		content: /^\s*import (android|androidx)\./m,
+	},
+	{
+		projectType: "nextjs",
+		description: "imports Next.js",
+		weight: 3,
+		content: /from\s+["']next(\/[\w-]+)?["']/,
+	},
+	{
+		projectType: "fastapi",
+		description: "imports FastAPI",
+		weight: 3,
+		content: /^\s*(from fastapi(\.[\w.]+)? import|import fastapi)/m,
+	},
+];
+
+const MANIFEST_RULES: {
+	projectType: DetectableProjectType;
+	description: string;
+	files: string[];
+	content: RegExp;
+}[] = [
+	{
+		projectType: "unity",
+		description: "Unity project settings",
+		files: ["ProjectSettings/ProjectVersion.txt"],
+		content: /m_EditorVersion/,
+	},
+	{
+		projectType: "android",
+		description: "Android Gradle plugin",
+		files: [
+			"build.gradle",
+			"build.gradle.kts",
+			"app/build.gradle",
+			"app/build.gradle.kts",
+		],
+		content: /com\.android\.(application|library)/,
+	},
+	{
+		projectType: "springboot",
+		description: "Spring Boot dependency",
+		files: ["build.gradle", "build.gradle.kts", "pom.xml"],
+		content: /org\.springframework\.boot/,
+	},
+	{
+		projectType: "nextjs",
+		description: "next dependency",
+		files: ["package.json"],
+		content: /"next"\s*:/,
+	},
+	{
+		projectType: "fastapi",
+		description: "fastapi dependency",
+		files: ["requirements.txt", "pyproject.toml"],
+		content: /\bfastapi\b/i,
+	},
+];
 
 export class FileAnalyzerService {
 	protected options: ReviewOptions;
 	protected ignoreFilter: ReturnType<typeof ignore>;
 	protected octokit: ReturnType<typeof github.getOctokit>;
 	protected context = github.context;
+	protected workspace: string;
 
-	constructor(token: string, options: ReviewOptions) {
+	constructor(
+		token: string,
+		options: ReviewOptions,
+		workspace = process.cwd(),
+	) {
 		this.options = options;
 		this.octokit = github.getOctokit(token);
+		this.workspace = workspace;
 
 		// Set up ignore filter
 		this.ignoreFilter = ignore().add(options.excludePatterns);
 	}
 
 	shouldAnalyzeFile(filename: string): boolean {
+		// Path overrides from the configuration file may replace the patterns and extensions
+		const options = resolveOptionsForPath(this.options, filename);
+		const ignoreFilter =
+			options.excludePatterns === this.options.excludePatterns
+				? this.ignoreFilter
+				: ignore().add(options.excludePatterns);
+
 		// Check if file should be ignored
-		if (this.ignoreFilter.ignores(filename)) {
+		if (ignoreFilter.ignores(filename)) {
 			return false;
 		}
 
 		// Check if file extension is in the list of extensions to analyze
 		const ext = path.extname(filename);
-		return this.options.fileExtensions.includes(ext);
+		return options.fileExtensions.includes(ext);
 	}
 
-	detectProjectType(
-		files: FileChange[],
-	): "unity" | "springboot" | "android" | "nextjs" {
-		// Check for Unity project indicators
-		const hasUnityFiles = files.some(
-			(file) =>
-				file.filename.endsWith(".cs") ||
-				file.filename.includes("/Assets/") ||
-				file.filename.includes("Assembly-CSharp.csproj"),
-		);
+	/**
+	 * Scores every supported project type from file paths, workspace manifests and
+	 * import statements, returning "auto" when no type reaches the detection threshold
+	 */
+	detectProjectType(files: FileChange[], root = "."): ProjectDetectionResult {
+		const scores: Record<DetectableProjectType, number> = {
+			unity: 0,
+			springboot: 0,
+			android: 0,
+			nextjs: 0,
+			fastapi: 0,
+		};
+		const evidence: ProjectDetectionResult["evidence"] = [];
 
-		if (hasUnityFiles) {
-			return "unity";
-		}
+		const addEvidence = (
+			projectType: DetectableProjectType,
+			signal: string,
+			score: number,
+		) => {
+			scores[projectType] += score;
+			evidence.push({ projectType, signal, score });
+		};
 
-		// Check for Spring Boot project indicators
-		const hasSpringBootFiles = files.some(
-			(file) =>
-				file.filename.includes("application.properties") ||
-				file.filename.includes("application.yml") ||
-				file.filename.includes("build.gradle") ||
-				file.filename.includes("pom.xml") ||
-				(file.filename.endsWith(".java") &&
-					(file.fullContent?.includes("@SpringBootApplication") ||
-						file.fullContent?.includes("import org.springframework"))),
-		);
+		// Path and content rules count each matching file, capped so large PRs don't dominate
+		for (const rule of DETECTION_RULES) {
+			const matches = files.filter((file) =>
+				rule.content
+					? file.fullContent !== undefined &&
+						rule.content.test(file.fullContent)
+					: rule.path?.test(file.filename),
+			);
 
-		if (hasSpringBootFiles) {
-			return "springboot";
+			if (matches.length > 0) {
+				const count = Math.min(matches.length, MAX_RULE_MATCHES);
+				addEvidence(
+					rule.projectType,
+					`${rule.description} (${matches.length} files, e.g. ${matches[0].filename})`,
+					rule.weight * count,
+				);
+			}
 		}
 
-		// Check for Android project indicators
-		const hasAndroidFiles = files.some(
-			(file) =>
-				file.filename.includes("AndroidManifest.xml") ||
-				file.filename.includes("build.gradle") ||
-				file.filename.endsWith(".kt") ||
-				(file.filename.endsWith(".java") &&
-					(file.fullContent?.includes("import android.") ||
-						file.fullContent?.includes("extends Activity"))),
-		);
+		// Manifests in the checked-out workspace are the strongest signal
+		const read = (name: string) => {
+			try {
+				return fs.readFileSync(path.join(this.workspace, root, name), "utf8");
+			} catch {
+				return "";
+			}
+		};
 
-		if (hasAndroidFiles) {
-			return "android";
+		for (const manifest of MANIFEST_RULES) {
+			for (const file of manifest.files) {
+				const content = read(file);
+				if (content && manifest.content.test(content)) {
+					addEvidence(
+						manifest.projectType,
+						`${path.posix.join(root, file)}: ${manifest.description}`,
+						MANIFEST_WEIGHT,
+					);
+					break;
+				}
+			}
 		}
 
-		// Check for Next.js project indicators
-		const hasNextJsFiles = files.some(
-			(file) =>
-				file.filename.includes("next.config.js") ||
-				file.filename.includes("pages/") ||
-				file.filename.includes("app/") ||
-				(file.filename.endsWith(".js") &&
-					file.fullContent?.includes("import { useRouter }")) ||
-				(file.filename.endsWith(".tsx") &&
-					file.fullContent?.includes("import { GetServerSideProps }")),
-		);
+		const ranked = (Object.entries(scores) as [DetectableProjectType, number][])
+			.filter(([, score]) => score > 0)
+			.sort((a, b) => b[1] - a[1]);
+		const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+		const [topType, topScore] = ranked[0] ?? ["auto", 0];
+
+		const result: ProjectDetectionResult = {
+			projectType: topScore >= DETECTION_THRESHOLD ? topType : "auto",
+			confidence: total > 0 ? topScore / total : 0,
+			scores,
+			evidence,
+		};
+
+		this.reportDetection(result, root);
+		return result;
+	}
+
+	/**
+	 * Logs the detection outcome and adds it to the job summary
+	 */
+	protected reportDetection(
+		result: ProjectDetectionResult,
+		root: string,
+	): void {
+		const confidence = `${Math.round(result.confidence * 100)}%`;
+		const location = root === "." ? "" : ` in ${root}`;
+
+		if (result.projectType === "auto") {
+			core.info(
+				`No project type scored at least ${DETECTION_THRESHOLD}${location}, using the base template`,
+			);
+		} else {
+			core.info(
+				`Detected project type${location}: ${result.projectType} (confidence ${confidence})`,
+			);
+		}
 
-		if (hasNextJsFiles) {
-			return "nextjs";
+		for (const item of result.evidence) {
+			core.info(`  [${item.projectType} +${item.score}] ${item.signal}`);
 		}
 
-		// Default to Next.js if we can't determine the project type (since it's the most generic)
-		return "nextjs";
+		core.summary
+			.addHeading(`Loxops project detection${location}`, 3)
+			.addRaw(
+				`Detected <b>${result.projectType === "auto" ? "base (no match)" : result.projectType}</b> with ${confidence} confidence`,
+				true,
+			)
+			.addTable([
+				[
+					{ data: "Project type", header: true },
+					{ data: "Score", header: true },
+					{ data: "Evidence", header: true },
+				],
+				...Object.entries(result.scores).map(([projectType, score]) => [
+					projectType,
+					String(score),
+					result.evidence
+						.filter((item) => item.projectType === projectType)
+						.map((item) => item.signal)
+						.join("<br>"),
+				]),
+			]);
 	}
 
 	async findRelatedFiles(context: ReviewContext): Promise<RelatedFiles> {
@@ -135,9 +388,7 @@ export class FileAnalyzerService {
 							// Exclude the file itself
 							item.path !== file.filename &&
 							// Make sure the file extension is in our list
-							this.shouldAnalyzeFile(item.path) &&
-							// Make sure the file is not in the ignore list
-							!this.ignoreFilter.ignores(item.path),
+							this.shouldAnalyzeFile(item.path),
 					)
 					.map((item) => item.path);
 
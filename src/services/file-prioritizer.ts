@@ -0,0 +1,253 @@
+import * as path from "node:path";
+import * as core from "@actions/core";
+import type * as github from "@actions/github";
+import ignore from "ignore";
+import type {
+	DetectableProjectType,
+	FileChange,
+	ProjectType,
+	SkippedFile,
+} from "../types";
+
+const LOCKFILES = [
+	"package-lock.json",
+	"pnpm-lock.yaml",
+	"yarn.lock",
+	"poetry.lock",
+	"Pipfile.lock",
+	"Gemfile.lock",
+	"Cargo.lock",
+	"composer.lock",
+	"Podfile.lock",
+	"go.sum",
+	"gradle.lockfile",
+];
+
+const GENERATED_PATTERNS = [
+	"*.min.js",
+	"*.min.css",
+	"*.map",
+	"*.g.cs",
+	"*.Designer.cs",
+	"*_pb2.py",
+	"*.pb.go",
+	"*.generated.*",
+	"generated/",
+	"__generated__/",
+	"__snapshots__/",
+];
+
+// Header comments that code generators leave at the top of their output
+const GENERATED_MARKER =
+	/@generated|<auto-generated|Code generated .* DO NOT EDIT/;
+
+const CONFIG_EXTENSIONS = [
+	".json",
+	".yml",
+	".yaml",
+	".xml",
+	".properties",
+	".toml",
+	".ini",
+	".cfg",
+	".conf",
+	".gradle",
+	".kts",
+];
+
+const DOC_EXTENSIONS = [".md", ".mdx", ".txt", ".rst"];
+
+const TEST_FILE =
+	/(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|Tests?\.(java|kt|cs)$|(^|\/)test_\w+\.py$/;
+
+// Files where changes are most likely to break behaviour for each project type
+const HOTSPOTS: Record<
+	DetectableProjectType,
+	{ filename?: RegExp; patch?: RegExp }
+> = {
+	springboot: {
+		filename: /Controller\.(java|kt)$/,
+		patch:
+			/@(Rest)?Controller|@Transactional|@(Get|Post|Put|Patch|Delete|Request)Mapping/,
+	},
+	unity: {
+		patch:
+			/:\s*MonoBehaviour|void\s+(Awake|Start|Update|FixedUpdate|LateUpdate)\s*\(/,
+	},
+	android: {
+		filename: /(Activity|Fragment|ViewModel)\.(kt|java)$/,
+		patch: /:\s*(AppCompat)?Activity\(|:\s*Fragment\(|:\s*ViewModel\(/,
+	},
+	nextjs: {
+		filename: /(^|\/)(middleware\.[jt]s|pages\/api\/.*|app\/.*route\.[jt]s)$/,
+		patch: /["']use server["']|getServerSideProps/,
+	},
+	fastapi: {
+		filename: /(^|\/)(main|dependencies|security|auth)\.py$/,
+		patch: /@(app|router)\.(get|post|put|patch|delete)\(|Depends\(/,
+	},
+};
+
+// Commits within this many days count towards a file's churn
+const CHURN_WINDOW_DAYS = 90;
+// Churn is only looked up for this many candidates per selected file to bound API calls
+const CHURN_CANDIDATE_FACTOR = 2;
+
+interface ScoredFile {
+	file: FileChange;
+	score: number;
+}
+
+export class FilePrioritizerService {
+	private octokit: ReturnType<typeof github.getOctokit>;
+	private repo: { owner: string; repo: string };
+	private projectType: ProjectType;
+
+	constructor(
+		octokit: ReturnType<typeof github.getOctokit>,
+		repo: { owner: string; repo: string },
+		projectType: ProjectType,
+	) {
+		this.octokit = octokit;
+		this.repo = repo;
+		this.projectType = projectType;
+	}
+
+	/**
+	 * Picks the riskiest `maxFiles` files to review. Generated files and lockfiles are skipped first,
+	 * the rest are ranked by change size, file role, recent churn and project hotspots.
+	 */
+	async prioritize(
+		files: FileChange[],
+		maxFiles: number,
+	): Promise<{ selected: FileChange[]; skipped: SkippedFile[] }> {
+		const skipped: SkippedFile[] = [];
+		const candidates: ScoredFile[] = [];
+
+		for (const file of files) {
+			if (this.isLockfile(file.filename)) {
+				skipped.push({ filename: file.filename, reason: "lockfile" });
+			} else if (this.isGenerated(file)) {
+				skipped.push({ filename: file.filename, reason: "generated" });
+			} else {
+				candidates.push({ file, score: this.scoreFile(file) });
+			}
+		}
+
+		candidates.sort((a, b) => b.score - a.score);
+
+		// Churn needs an API call per file, so only refine the ranking near the cut-off
+		for (const candidate of candidates.slice(
+			0,
+			maxFiles * CHURN_CANDIDATE_FACTOR,
+		)) {
+			candidate.score += await this.getChurnScore(candidate.file.filename);
+		}
+		candidates.sort((a, b) => b.score - a.score);
+
+		for (const { file, score } of candidates) {
+			core.debug(`Priority score ${score.toFixed(1)}: ${file.filename}`);
+		}
+
+		const selected = candidates.slice(0, maxFiles);
+		for (const { file, score } of candidates.slice(maxFiles)) {
+			skipped.push({
+				filename: file.filename,
+				reason: "low-priority",
+				score: Math.round(score * 10) / 10,
+			});
+		}
+
+		core.info(
+			`Selected ${selected.length} of ${files.length} files by risk: ${selected
+				.map(({ file, score }) => `${file.filename} (${score.toFixed(1)})`)
+				.join(", ")}`,
+		);
+		return { selected: selected.map(({ file }) => file), skipped };
+	}
+
+	private scoreFile(file: FileChange): number {
+		return (
+			this.getChangeSizeScore(file) +
+			this.getRoleScore(file.filename) +
+			this.getHotspotScore(file)
+		);
+	}
+
+	/**
+	 * Grows logarithmically so one huge change does not outweigh every other signal
+	 */
+	private getChangeSizeScore(file: FileChange): number {
+		const changes =
+			file.additions !== undefined && file.deletions !== undefined
+				? file.additions + file.deletions
+				: (file.patch?.match(/^[+-]/gm)?.length ?? 0);
+		return Math.min(6, Math.log2(1 + changes));
+	}
+
+	private getRoleScore(filename: string): number {
+		const extension = path.extname(filename).toLowerCase();
+
+		if (DOC_EXTENSIONS.includes(extension)) {
+			return 0;
+		}
+		if (CONFIG_EXTENSIONS.includes(extension)) {
+			return 1;
+		}
+		if (TEST_FILE.test(filename)) {
+			return 2;
+		}
+		return 5;
+	}
+
+	private getHotspotScore(file: FileChange): number {
+		const types =
+			this.projectType === "auto"
+				? (Object.keys(HOTSPOTS) as DetectableProjectType[])
+				: [this.projectType];
+
+		const isHotspot = types.some(
+			(type) =>
+				HOTSPOTS[type].filename?.test(file.filename) ||
+				(file.patch && HOTSPOTS[type].patch?.test(file.patch)),
+		);
+		return isHotspot ? 4 : 0;
+	}
+
+	/**
+	 * Scores how often the file changed recently, since frequently changed files tend to break more often
+	 */
+	private async getChurnScore(filename: string): Promise<number> {
+		try {
+			const since = new Date(
+				Date.now() - CHURN_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+			).toISOString();
+			const response = await this.octokit.rest.repos.listCommits({
+				...this.repo,
+				path: filename,
+				since,
+				per_page: 20,
+			});
+			return Math.min(4, response.data.length / 5);
+		} catch (error) {
+			core.debug(
+				`Could not fetch commit history for ${filename}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return 0;
+		}
+	}
+
+	private isLockfile(filename: string): boolean {
+		return LOCKFILES.includes(path.basename(filename));
+	}
+
+	private isGenerated(file: FileChange): boolean {
+		if (ignore().add(GENERATED_PATTERNS).ignores(file.filename)) {
+			return true;
+		}
+
+		// Generators mark their output in the first lines of the file
+		const head = file.patch?.split("\n").slice(0, 10).join("\n") ?? "";
+		return file.status === "added" && GENERATED_MARKER.test(head);
+	}
+}
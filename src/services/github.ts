@@ -1,21 +1,210 @@
+import { createHash } from "node:crypto";
 import * as core from "@actions/core";
 import * as github from "@actions/github";
+import ignore from "ignore";
+import { type Messages, getMessages } from "../i18n";
 import type {
+	CommandComment,
+	CommentPriority,
+	CommentSide,
+	DiffHunk,
+	DiffLine,
 	FileChange,
+	ProjectType,
+	PullRequestTrigger,
+	ReviewComment,
 	ReviewContext,
+	ReviewConversation,
+	ReviewEvent,
+	ReviewLanguage,
+	ReviewThread,
+	SkippedFile,
 	StructuredReview,
+	SummaryCommentMode,
 	UserComment,
 } from "../types";
+import { findDiffLine, findDiffRange, parsePatch } from "../utils/diff";
+import { chunkArray } from "../utils/helpers";
+import { getLabelColor } from "../utils/labels";
+import { canApplySuggestion } from "../utils/suggestion";
+import { insertWalkthrough } from "../utils/walkthrough";
 import type { FileAnalyzerService } from "./file-analyzer";
+import { FilePrioritizerService } from "./file-prioritizer";
+
+// Hidden marker in the summary comment recording the head commit that was reviewed
+const REVIEWED_SHA_MARKER = /<!-- loxops:reviewed-sha ([0-9a-f]{40}) -->/;
+
+// Markers that let the summary comment be found and edited on the next run
+const SUMMARY_MARKER = "<!-- loxops:summary -->";
+const HISTORY_MARKER = "<!-- loxops:history -->";
+const HISTORY_ENTRY =
+	/<!-- loxops:history-entry -->\n([\s\S]*?)\n<!-- \/loxops:history-entry -->/g;
+// GitHub rejects comments longer than this, so the oldest history entries are dropped first
+const MAX_COMMENT_LENGTH = 65536;
+
+// Hidden marker in each line comment identifying the finding across runs
+const FINGERPRINT_MARKER = /<!-- loxops:fingerprint ([0-9a-f]+) -->/;
+// Fingerprint digits shown under each line comment for `/loxops ignore`
+const SHORT_FINGERPRINT_LENGTH = 8;
+// Hidden marker in each line comment recording the priority of the finding
+const PRIORITY_MARKER = /<!-- loxops:priority (critical|high|medium|low) -->/;
+// Hidden marker in replies Loxops posts in its review threads, counted against the reply cap
+const REPLY_MARKER = "<!-- loxops:reply -->";
+
+// Account the default GITHUB_TOKEN posts as
+const DEFAULT_BOT_LOGIN = "github-actions[bot]";
+
+// Check run annotation level for each comment priority
+const ANNOTATION_LEVELS: Record<
+	CommentPriority,
+	"failure" | "warning" | "notice"
+> = {
+	critical: "failure",
+	high: "failure",
+	medium: "warning",
+	low: "notice",
+};
+// The checks API accepts at most this many annotations per request
+const ANNOTATIONS_PER_REQUEST = 50;
+// Longest text the checks API accepts for the output summary
+const MAX_CHECK_SUMMARY_LENGTH = 65535;
+
+// The compare API returns at most this many changed files
+const MAX_COMPARE_FILES = 300;
+
+// Comments off the diff are moved to a diff line at most this many lines away
+const RELOCATE_DISTANCE = 3;
+// Shorter quoted code, such as a variable name, is too common to identify a line
+const MIN_QUOTED_CODE_LENGTH = 8;
+
+const REVIEW_THREADS_QUERY = `
+	query ($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+		repository(owner: $owner, name: $repo) {
+			pullRequest(number: $number) {
+				reviewThreads(first: 100, after: $cursor) {
+					pageInfo {
+						hasNextPage
+						endCursor
+					}
+					nodes {
+						id
+						isResolved
+						path
+						line
+						originalLine
+						comments(first: 1) {
+							nodes {
+								databaseId
+								body
+								diffHunk
+								author {
+									login
+									__typename
+								}
+							}
+						}
+					}
+				}
+			}
+		}
+	}
+`;
+
+const RESOLVE_THREAD_MUTATION = `
+	mutation ($threadId: ID!) {
+		resolveReviewThread(input: { threadId: $threadId }) {
+			thread {
+				id
+			}
+		}
+	}
+`;
+
+interface ReviewThreadsResponse {
+	repository: {
+		pullRequest: {
+			reviewThreads: {
+				pageInfo: { hasNextPage: boolean; endCursor: string | null };
+				nodes: {
+					id: string;
+					isResolved: boolean;
+					path: string;
+					line: number | null;
+					originalLine: number | null;
+					comments: {
+						nodes: {
+							databaseId: number;
+							body: string;
+							diffHunk: string;
+							author: { login: string; __typename: string } | null;
+						}[];
+					};
+				}[];
+			};
+		};
+	};
+}
+
+// A line comment positioned the way the pull request review API expects
+interface DiffComment {
+	path: string;
+	body: string;
+	line: number;
+	side: CommentSide;
+	start_line?: number;
+	start_side?: CommentSide;
+}
 
 export class GitHubService {
 	protected octokit: ReturnType<typeof github.getOctokit>;
 	protected fileAnalyzer: FileAnalyzerService;
+	protected messages: Messages;
+	protected summaryCommentMode: SummaryCommentMode;
+	protected botLogin: string;
 	private context = github.context;
 
-	constructor(token: string, fileAnalyzer: FileAnalyzerService) {
+	constructor(
+		token: string,
+		fileAnalyzer: FileAnalyzerService,
+		language: ReviewLanguage = "ko",
+		summaryCommentMode: SummaryCommentMode = "update",
+		botLogin: string = DEFAULT_BOT_LOGIN,
+	) {
 		this.octokit = github.getOctokit(token);
 		this.fileAnalyzer = fileAnalyzer;
+		this.messages = getMessages(language);
+		this.summaryCommentMode = summaryCommentMode;
+		this.botLogin = botLogin;
+	}
+
+	/**
+	 * Whether a comment or label was added by the account the action runs as. Loxops markers are
+	 * only trusted in its comments, since anyone can paste them into their own.
+	 */
+	protected isOwnAccount(
+		user: { login: string; type: string } | null | undefined,
+	): boolean {
+		return user?.type === "Bot" && user.login === this.botLogin;
+	}
+
+	/**
+	 * Converts a GraphQL comment author to the shape of a REST user. GraphQL leaves the "[bot]"
+	 * suffix off the login of apps, which the REST API and the bot-login input include.
+	 */
+	private toRestUser(
+		author: { login: string; __typename: string } | null,
+	): { login: string; type: string } | undefined {
+		if (!author) {
+			return undefined;
+		}
+		const isBot = author.__typename === "Bot";
+		return {
+			login:
+				isBot && !author.login.endsWith("[bot]")
+					? `${author.login}[bot]`
+					: author.login,
+			type: isBot ? "Bot" : "User",
+		};
 	}
 
 	async getPullRequestDetails(): Promise<{
@@ -25,7 +214,24 @@ export class GitHubService {
 		head: { ref: string; sha: string };
 		base: { ref: string };
 	}> {
-		const { pull_request } = this.context.payload;
+		const { pull_request, issue } = this.context.payload;
+
+		// Comments on a pull request arrive as issue_comment events without the pull request itself
+		if (!pull_request && issue?.pull_request) {
+			const { owner, repo } = this.context.repo;
+			const { data } = await this.octokit.rest.pulls.get({
+				owner,
+				repo,
+				pull_number: issue.number,
+			});
+			return {
+				number: data.number,
+				title: data.title,
+				body: data.body,
+				head: { ref: data.head.ref, sha: data.head.sha },
+				base: { ref: data.base.ref },
+			};
+		}
 
 		if (!pull_request) {
 			throw new Error("This action can only be run on pull request events");
@@ -45,43 +251,178 @@ export class GitHubService {
 		};
 	}
 
-	async getChangedFiles(prNumber: number): Promise<FileChange[]> {
+	/**
+	 * Returns the comment that triggered an issue_comment event on a pull request
+	 */
+	getCommandComment(): CommandComment | undefined {
+		const { comment, issue } = this.context.payload;
+
+		if (
+			this.context.eventName !== "issue_comment" ||
+			!comment ||
+			!issue?.pull_request
+		) {
+			return undefined;
+		}
+
+		return {
+			id: comment.id,
+			body: comment.body ?? "",
+			author: comment.user.login,
+			pullRequestNumber: issue.number,
+		};
+	}
+
+	/**
+	 * Returns the pull request of a pull_request event as the trigger policy sees it
+	 */
+	getPullRequestTrigger(): PullRequestTrigger | undefined {
+		const { action, pull_request } = this.context.payload;
+
+		if (
+			!["pull_request", "pull_request_target"].includes(
+				this.context.eventName,
+			) ||
+			!pull_request
+		) {
+			return undefined;
+		}
+
+		return {
+			number: pull_request.number,
+			action,
+			draft: pull_request.draft ?? false,
+			labels: (pull_request.labels ?? []).map(
+				(label: { name: string }) => label.name,
+			),
+			author: pull_request.user?.login ?? "",
+			isBot:
+				pull_request.user?.type === "Bot" ||
+				(pull_request.user?.login ?? "").endsWith("[bot]"),
+			baseRef: pull_request.base.ref,
+			headRef: pull_request.head.ref,
+			changedLines:
+				(pull_request.additions ?? 0) + (pull_request.deletions ?? 0),
+		};
+	}
+
+	/**
+	 * Checks whether a user can push to the repository, which commands require
+	 */
+	async hasWriteAccess(username: string): Promise<boolean> {
 		const { owner, repo } = this.context.repo;
-		core.info(`Fetching changed files for PR #${prNumber}...`);
 
-		const changedFiles: FileChange[] = [];
-		let page = 1;
-		let hasMorePages = true;
+		try {
+			const { data } =
+				await this.octokit.rest.repos.getCollaboratorPermissionLevel({
+					owner,
+					repo,
+					username,
+				});
+			return data.permission === "admin" || data.permission === "write";
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(
+					`Error checking the permission of ${username}: ${error.message}`,
+				);
+			}
+			return false;
+		}
+	}
 
-		while (hasMorePages) {
-			const response = await this.octokit.rest.pulls.listFiles({
+	async addReaction(
+		commentId: number,
+		content: "eyes" | "rocket" | "confused" | "-1",
+	): Promise<void> {
+		const { owner, repo } = this.context.repo;
+
+		try {
+			await this.octokit.rest.reactions.createForIssueComment({
 				owner,
 				repo,
-				pull_number: prNumber,
-				per_page: 100,
-				page,
+				comment_id: commentId,
+				content,
 			});
-
-			if (response.data.length === 0) {
-				hasMorePages = false;
-				break;
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(
+					`Error reacting to comment ${commentId}: ${error.message}`,
+				);
 			}
+		}
+	}
 
-			for (const file of response.data) {
-				if (!this.fileAnalyzer.shouldAnalyzeFile(file.filename)) {
-					continue;
-				}
+	/**
+	 * Lists every file changed in the pull request, following all result pages
+	 */
+	protected async listPullRequestFiles(prNumber: number) {
+		const { owner, repo } = this.context.repo;
+		return this.octokit.paginate(this.octokit.rest.pulls.listFiles, {
+			owner,
+			repo,
+			pull_number: prNumber,
+			per_page: 100,
+		});
+	}
 
-				const fileChange: FileChange = {
-					filename: file.filename,
-					status: file.status as "added" | "modified" | "removed" | "renamed",
-					patch: file.patch,
-				};
+	/**
+	 * Lists every general comment of the pull request, oldest first
+	 */
+	protected async listIssueComments(prNumber: number) {
+		const { owner, repo } = this.context.repo;
+		return this.octokit.paginate(this.octokit.rest.issues.listComments, {
+			owner,
+			repo,
+			issue_number: prNumber,
+			per_page: 100,
+		});
+	}
+
+	/**
+	 * Lists every line comment of the pull request, oldest first
+	 */
+	protected async listReviewComments(prNumber: number) {
+		const { owner, repo } = this.context.repo;
+		return this.octokit.paginate(this.octokit.rest.pulls.listReviewComments, {
+			owner,
+			repo,
+			pull_number: prNumber,
+			per_page: 100,
+		});
+	}
+
+	/**
+	 * Lists every submitted review of the pull request, oldest first
+	 */
+	protected async listReviews(prNumber: number) {
+		const { owner, repo } = this.context.repo;
+		return this.octokit.paginate(this.octokit.rest.pulls.listReviews, {
+			owner,
+			repo,
+			pull_number: prNumber,
+			per_page: 100,
+		});
+	}
+
+	async getChangedFiles(prNumber: number): Promise<FileChange[]> {
+		core.info(`Fetching changed files for PR #${prNumber}...`);
 
-				changedFiles.push(fileChange);
+		const changedFiles: FileChange[] = [];
+
+		for (const file of await this.listPullRequestFiles(prNumber)) {
+			if (!this.fileAnalyzer.shouldAnalyzeFile(file.filename)) {
+				continue;
 			}
 
-			page++;
+			const fileChange: FileChange = {
+				filename: file.filename,
+				status: file.status as "added" | "modified" | "removed" | "renamed",
+				patch: file.patch,
+				additions: file.additions,
+				deletions: file.deletions,
+			};
+
+			changedFiles.push(fileChange);
 		}
 
 		core.info(`Found ${changedFiles.length} relevant changed files`);
@@ -89,6 +430,17 @@ export class GitHubService {
 	}
 
 	async getFileContent(filepath: string, ref: string): Promise<string> {
+		return (await this.findFileContent(filepath, ref)) ?? "";
+	}
+
+	/**
+	 * Fetches a file at the given ref. Returns an empty string when the file does not exist there,
+	 * and undefined when it could not be fetched, e.g. after a rate limit or for files over 1 MB.
+	 */
+	async findFileContent(
+		filepath: string,
+		ref: string,
+	): Promise<string | undefined> {
 		const { owner, repo } = this.context.repo;
 
 		try {
@@ -107,12 +459,15 @@ export class GitHubService {
 
 			throw new Error(`Unexpected response format for file: ${filepath}`);
 		} catch (error) {
+			if (error instanceof Error && "status" in error && error.status === 404) {
+				return "";
+			}
 			if (error instanceof Error) {
 				core.warning(
 					`Error fetching file content for ${filepath}: ${error.message}`,
 				);
 			}
-			return "";
+			return undefined;
 		}
 	}
 
@@ -140,123 +495,116 @@ export class GitHubService {
 	async createReviewWithComments(
 		prNumber: number,
 		review: StructuredReview,
+		{
+			skippedFiles = [],
+			reviewedSha,
+			event = "COMMENT",
+			lineComments = true,
+			comparedSha,
+		}: {
+			skippedFiles?: SkippedFile[];
+			// Head commit the review covers, recorded for incremental reviews
+			reviewedSha?: string;
+			// Commit an incremental review compared the head against, which LEFT lines refer to
+			comparedSha?: string;
+			event?: ReviewEvent;
+			// Off when the findings are published as a check run, so only the summary is posted
+			lineComments?: boolean;
+		} = {},
 	): Promise<void> {
 		const { owner, repo } = this.context.repo;
 		const { summary, comments } = review;
 
 		try {
 			// Check if the summary is from an error in Claude service
-			const isErrorSummary =
-				summary.includes("코드 리뷰 응답 파싱에 실패했습니다") ||
-				summary.includes("Claude 코드 리뷰 생성 중 오류가 발생했습니다") ||
-				summary.includes("알 수 없는 오류로 코드 리뷰를 생성할 수 없습니다");
-
-			// Only post regular comment if it's not an error summary
-			if (!isErrorSummary) {
-				const reviewBody = `# Loxops\n\n## Overall Assessment\n\n${summary}`;
-
-				await this.octokit.rest.issues.createComment({
-					owner,
-					repo,
-					issue_number: prNumber,
-					body: reviewBody,
-				});
+			const isErrorSummary = this.messages.review.errorSummaries.some(
+				(message) => summary.includes(message),
+			);
 
-				core.info("Successfully posted overall review comment");
-			} else {
+			if (isErrorSummary) {
 				core.info(
 					"Skipping posting summary comment as it contains an error message",
 				);
 				return; // Exit early if there's an error summary
 			}
 
-			// Only continue with line comments if there are actual comments
-			if (comments.length === 0) {
-				core.info(
-					"No line-specific comments to post, skipping review creation",
-				);
-				return;
-			}
-
-			// Get the latest commit SHA for the pull request
-			const prResponse = await this.octokit.rest.pulls.get({
-				owner,
-				repo,
-				pull_number: prNumber,
-			});
-
-			const headSha = prResponse.data.head.sha;
+			let headSha = "";
+			let validComments: DiffComment[] = [];
+			const fileHunks: Record<string, DiffHunk[]> = {};
+			let additionalFindings = "";
+			let duplicatesNote = "";
 
-			// Get the PR diff to determine which lines are part of the diff
-			const { data: files } = await this.octokit.rest.pulls.listFiles({
-				owner,
-				repo,
-				pull_number: prNumber,
-			});
+			// Only place line comments if there are actual comments
+			if (lineComments && comments.length > 0) {
+				// Get the latest commit SHA for the pull request
+				const prResponse = await this.octokit.rest.pulls.get({
+					owner,
+					repo,
+					pull_number: prNumber,
+				});
 
-			// Create a map of valid line ranges for each file in the diff
-			const validLineRanges: Record<string, { start: number; end: number }[]> =
-				{};
+				headSha = prResponse.data.head.sha;
 
-			for (const file of files) {
-				if (!file.patch) continue;
+				// Get the PR diff to determine which lines are part of the diff
+				const files = await this.listPullRequestFiles(prNumber);
 
-				validLineRanges[file.filename] = [];
+				// Parse each patch so comments can be checked against the lines of the diff
+				for (const file of files) {
+					if (!file.patch) continue;
 
-				// Parse the patch to extract changed line numbers
-				const hunkHeaders =
-					file.patch.match(/@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/g) || [];
+					fileHunks[file.filename] = parsePatch(file.patch);
+				}
 
-				for (const header of hunkHeaders) {
-					const match = header.match(/@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
-					if (match) {
-						const start = Number.parseInt(match[1], 10);
-						const length = match[2] ? Number.parseInt(match[2], 10) : 1;
-						validLineRanges[file.filename].push({
-							start,
-							end: start + length - 1,
-						});
-					}
+				// LEFT lines of an incremental review refer to the last reviewed commit rather than the
+				// pull request base, so they cannot be placed on the pull request diff
+				const onOldCommit = (comment: ReviewComment) =>
+					comparedSha !== undefined && comment.side === "LEFT";
+				const placement = await this.placeComments(
+					comments.filter((comment) => !onOldCommit(comment)),
+					fileHunks,
+					headSha,
+				);
+				const { fresh, duplicates } = await this.removeDuplicateComments(
+					prNumber,
+					placement.placed,
+				);
+				validComments = fresh;
+				if (duplicates > 0) {
+					duplicatesNote = `\n\n_${this.messages.review.duplicateCommentsNote(duplicates)}_`;
 				}
+				additionalFindings = this.formatAdditionalFindings(
+					[...placement.unplaced, ...comments.filter(onOldCommit)],
+					{ head: headSha, base: comparedSha ?? prResponse.data.base.sha },
+				);
 			}
 
-			// Filter comments to only include those on lines that are part of the diff
-			const validComments = comments
-				.filter((comment) => {
-					if (!comment.body || comment.line <= 0 || !comment.path) {
-						return false;
-					}
-
-					const ranges = validLineRanges[comment.path];
-					if (!ranges) return false;
+			let reviewBody = `# Loxops\n\n## ${this.messages.review.overallAssessment}\n\n${summary}${duplicatesNote}${additionalFindings}${this.formatSkippedFiles(skippedFiles)}`;
+			if (reviewedSha) {
+				// Lets the next run review only the commits pushed since this one
+				reviewBody += `\n\n<!-- loxops:reviewed-sha ${reviewedSha} -->`;
+			}
 
-					// Check if the comment's line falls within any of the changed ranges
-					return ranges.some(
-						(range) => comment.line >= range.start && comment.line <= range.end,
-					);
-				})
-				.map((comment) => ({
-					path: comment.path,
-					line: comment.line,
-					body: comment.body || "No comment provided",
-				}));
+			await this.postSummaryComment(prNumber, reviewBody);
 
-			// Only create review if we have valid comments
-			if (validComments.length > 0) {
+			// Only create review if we have valid comments, or a verdict to submit
+			if (!lineComments) {
+				return;
+			}
+			if (validComments.length > 0 || event !== "COMMENT") {
 				try {
 					// Create the review with line-specific comments
 					await this.octokit.rest.pulls.createReview({
 						owner,
 						repo,
 						pull_number: prNumber,
-						commit_id: headSha,
-						body: "# Loxops - 라인별 코멘트",
-						event: "COMMENT",
+						commit_id: headSha || undefined,
+						body: `# Loxops - ${this.messages.review.lineCommentsTitle}`,
+						event,
 						comments: validComments,
 					});
 
 					core.info(
-						"Successfully posted code review with line-specific comments",
+						`Successfully posted code review with line-specific comments (${event})`,
 					);
 				} catch (reviewError) {
 					core.error(
@@ -268,36 +616,12 @@ export class GitHubService {
 					for (const comment of validComments) {
 						try {
 							// Make sure we include the diff_hunk for the comment
-							const fileInfo = files.find((f) => f.filename === comment.path);
-							if (!fileInfo || !fileInfo.patch) {
-								core.warning(`Could not find patch for file: ${comment.path}`);
-								continue;
-							}
-
-							// Extract the relevant part of the patch for this line
-							let diffHunk = "";
-							const hunkHeaders =
-								fileInfo.patch.match(
-									/@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@[^\n]*\n(?:(?!@@)[^\n]*\n)*/g,
-								) || [];
-							for (const hunk of hunkHeaders) {
-								const match = hunk.match(
-									/@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/,
-								);
-								if (match) {
-									const start = Number.parseInt(match[1], 10);
-									const length = match[2] ? Number.parseInt(match[2], 10) : 1;
-									if (
-										comment.line >= start &&
-										comment.line <= start + length - 1
-									) {
-										diffHunk = hunk;
-										break;
-									}
-								}
-							}
-
-							if (!diffHunk) {
+							const diffLine = findDiffLine(
+								fileHunks[comment.path] ?? [],
+								comment.line,
+								comment.side,
+							);
+							if (!diffLine) {
 								core.warning(
 									`Could not find diff hunk for line ${comment.line} in file: ${comment.path}`,
 								);
@@ -312,8 +636,10 @@ export class GitHubService {
 								path: comment.path,
 								body: comment.body,
 								line: comment.line,
-								side: "RIGHT",
-								diff_hunk: diffHunk,
+								side: comment.side,
+								start_line: comment.start_line,
+								start_side: comment.start_side,
+								diff_hunk: diffLine.hunk.text,
 							});
 						} catch (commentError) {
 							core.error(
@@ -337,7 +663,7 @@ export class GitHubService {
 					core.info("Falling back to posting a regular comment");
 					await this.createReviewComment(
 						prNumber,
-						`${summary}\n\n## 상세 코멘트\n\n${comments.map((c) => `- **${c.path}:${c.line}**: ${c.body}`).join("\n\n")}`,
+						`${summary}\n\n## ${this.messages.review.detailedComments}\n\n${comments.map((c) => `- **${c.path}:${c.line}**: ${c.body}`).join("\n\n")}`,
 					);
 				} catch (fallbackError) {
 					core.error("Fallback comment also failed");
@@ -348,143 +674,1213 @@ export class GitHubService {
 		}
 	}
 
-	async getCommentsForPR(prNumber: number): Promise<UserComment[]> {
+	/**
+	 * Posts the summary comment. In update mode the previous summary is edited in place and its
+	 * assessment moves into a collapsed history, otherwise a new comment is created.
+	 */
+	protected async postSummaryComment(
+		prNumber: number,
+		body: string,
+	): Promise<void> {
 		const { owner, repo } = this.context.repo;
-		core.info(`Fetching comments for PR #${prNumber}...`);
-
-		const comments: UserComment[] = [];
-
-		try {
-			// Get issue comments (general PR comments)
-			const issueComments = await this.octokit.rest.issues.listComments({
-				owner,
-				repo,
-				issue_number: prNumber,
-			});
-
-			// Get PR review comments (inline comments)
-			const reviewComments = await this.octokit.rest.pulls.listReviewComments({
-				owner,
-				repo,
-				pull_number: prNumber,
-			});
 
-			// Process issue comments
-			for (const comment of issueComments.data) {
-				// Skip bot comments including our own AI reviews
-				if (
-					comment.user?.type === "Bot" ||
-					comment.body?.startsWith("# Loxops")
-				) {
-					continue;
-				}
+		if (this.summaryCommentMode === "update") {
+			const previous = await this.findSummaryComment(prNumber);
 
-				if (comment.user && comment.body && comment.created_at) {
-					comments.push({
-						id: comment.id.toString(),
-						user: comment.user.login,
-						body: comment.body,
-						createdAt: comment.created_at,
+			if (previous) {
+				try {
+					await this.octokit.rest.issues.updateComment({
+						owner,
+						repo,
+						comment_id: previous.id,
+						body: this.buildStickyBody(body, previous.body),
 					});
+					core.info("Successfully updated overall review comment");
+					return;
+				} catch (error) {
+					core.warning(
+						`Error updating previous review comment, posting a new one: ${error instanceof Error ? error.message : String(error)}`,
+					);
 				}
 			}
+		}
 
-			// Process review comments
-			for (const comment of reviewComments.data) {
-				// Skip bot comments
-				if (comment.user?.type === "Bot") {
-					continue;
-				}
-
-				if (comment.user && comment.body && comment.created_at) {
-					comments.push({
-						id: comment.id.toString(),
-						user: comment.user.login,
-						body: comment.body,
-						createdAt: comment.created_at,
-						path: comment.path,
-						line: comment.line || comment.original_line || undefined,
-					});
-				}
-			}
+		await this.octokit.rest.issues.createComment({
+			owner,
+			repo,
+			issue_number: prNumber,
+			body:
+				this.summaryCommentMode === "update"
+					? this.buildStickyBody(body)
+					: body,
+		});
+
+		core.info("Successfully posted overall review comment");
+	}
 
-			core.info(`Found ${comments.length} user comments`);
-			return comments;
+	/**
+	 * Finds the latest summary comment the action posted in update mode
+	 */
+	private async findSummaryComment(
+		prNumber: number,
+	): Promise<{ id: number; body: string } | undefined> {
+		try {
+			const comments = await this.listIssueComments(prNumber);
+
+			const previous = comments
+				.reverse()
+				.find(
+					(comment) =>
+						this.isOwnAccount(comment.user) &&
+						comment.body?.includes(SUMMARY_MARKER),
+				);
+			return previous?.body
+				? { id: previous.id, body: previous.body }
+				: undefined;
 		} catch (error) {
 			if (error instanceof Error) {
-				core.warning(`Error fetching comments: ${error.message}`);
+				core.warning(`Error finding previous review comment: ${error.message}`);
 			}
-			return [];
+			return undefined;
 		}
 	}
 
-	async getFilesFromCommit(commitSha: string): Promise<FileChange[]> {
-		const { owner, repo } = this.context.repo;
-		core.info(`Fetching files changed in commit ${commitSha}...`);
+	/**
+	 * Builds the summary comment body, moving the assessment of the previous body into
+	 * a collapsed history headed by the commit it reviewed
+	 */
+	protected buildStickyBody(body: string, previousBody?: string): string {
+		const entries: string[] = [];
+
+		if (previousBody) {
+			const [current, history = ""] = previousBody
+				.replace(SUMMARY_MARKER, "")
+				.split(HISTORY_MARKER);
+			const commit = current.match(REVIEWED_SHA_MARKER)?.[1];
+			const assessment = current
+				.replace(REVIEWED_SHA_MARKER, "")
+				.replace(/^# Loxops\s*/, "")
+				.trim();
+
+			entries.push(
+				commit
+					? `#### ${this.messages.review.historyEntry(commit.slice(0, 7))}\n\n${assessment}`
+					: assessment,
+			);
+			for (const match of history.matchAll(HISTORY_ENTRY)) {
+				entries.push(match[1]);
+			}
+		}
 
-		try {
-			const response = await this.octokit.rest.repos.getCommit({
-				owner,
-				repo,
-				ref: commitSha,
-			});
+		const render = (kept: string[]) => {
+			if (kept.length === 0) {
+				return `${body}\n\n${SUMMARY_MARKER}`;
+			}
 
-			const changedFiles: FileChange[] = [];
+			const items = kept
+				.map(
+					(entry) =>
+						`<!-- loxops:history-entry -->\n${entry}\n<!-- /loxops:history-entry -->`,
+				)
+				.join("\n\n");
+			return `${body}\n\n${HISTORY_MARKER}\n<details>\n<summary>${this.messages.review.previousReviews(kept.length)}</summary>\n\n${items}\n\n</details>\n\n${SUMMARY_MARKER}`;
+		};
 
-			for (const file of response.data.files || []) {
-				if (!this.fileAnalyzer.shouldAnalyzeFile(file.filename)) {
-					continue;
-				}
+		let sticky = render(entries);
+		while (sticky.length > MAX_COMMENT_LENGTH && entries.length > 0) {
+			entries.pop();
+			sticky = render(entries);
+		}
+		return sticky;
+	}
 
-				const fileChange: FileChange = {
-					filename: file.filename,
-					status: file.status as "added" | "modified" | "removed" | "renamed",
-					patch: file.patch,
-				};
+	/**
+	 * Positions every comment on the diff. Comments off the diff are moved to a nearby changed line
+	 * when one matches, the rest are returned as unplaced so they can be listed in the summary.
+	 */
+	protected async placeComments(
+		comments: ReviewComment[],
+		fileHunks: Record<string, DiffHunk[]>,
+		headSha: string,
+	): Promise<{ placed: DiffComment[]; unplaced: ReviewComment[] }> {
+		// Suggestions are checked against the head version of the files
+		const fileContents: Record<string, string> = {};
+		const getContent = async (path: string) => {
+			if (!(path in fileContents)) {
+				fileContents[path] = await this.getFileContent(path, headSha);
+			}
+			return fileContents[path];
+		};
 
-				changedFiles.push(fileChange);
+		const placed: DiffComment[] = [];
+		const unplaced: ReviewComment[] = [];
+
+		for (const comment of comments) {
+			if (!comment.body || !comment.path) {
+				continue;
 			}
 
-			core.info(
-				`Found ${changedFiles.length} relevant files in commit ${commitSha}`,
-			);
-			return changedFiles;
-		} catch (error) {
-			if (error instanceof Error) {
-				core.warning(
-					`Error fetching files for commit ${commitSha}: ${error.message}`,
+			const hunks = fileHunks[comment.path];
+			const content =
+				hunks && comment.suggestion !== undefined
+					? await getContent(comment.path)
+					: undefined;
+			const diffComment = this.toDiffComment(comment, hunks, content);
+			if (diffComment) {
+				placed.push(this.withFingerprint(diffComment, comment, hunks));
+				continue;
+			}
+
+			const relocated = hunks
+				? this.relocateComment(comment, hunks)
+				: undefined;
+			const relocatedComment =
+				relocated && this.toDiffComment(relocated, hunks);
+			if (relocatedComment) {
+				core.info(
+					`Moved comment on ${comment.path}:${comment.line} to line ${relocatedComment.line}`,
+				);
+				placed.push(this.withFingerprint(relocatedComment, comment, hunks));
+			} else {
+				core.info(
+					`Comment on ${comment.path}:${comment.line} is outside the diff, listing it in the summary`,
 				);
+				unplaced.push(comment);
 			}
-			return [];
 		}
+
+		return { placed, unplaced };
 	}
 
-	async prepareReviewContext(maxFiles: number): Promise<ReviewContext> {
-		const pr = await this.getPullRequestDetails();
-		let files: FileChange[] = [];
+	/**
+	 * Marks a placed comment with a fingerprint of its file, the code it is anchored to, its priority
+	 * and its normalized message, so the same finding can be recognized when the pull request is
+	 * reviewed again. Formatting, case and punctuation are left out of the message. The start of the
+	 * fingerprint is shown under the comment so reviewers can pass it to `/loxops ignore`.
+	 */
+	private withFingerprint(
+		diffComment: DiffComment,
+		comment: ReviewComment,
+		hunks: DiffHunk[],
+	): DiffComment {
+		const anchor = findDiffLine(hunks, diffComment.line, diffComment.side);
+		const code = (anchor?.line.content ?? "").replace(/\s+/g, " ").trim();
+		const message = comment.body
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}]+/gu, " ")
+			.trim();
+		const fingerprint = createHash("sha256")
+			.update(
+				`${diffComment.path}\n${diffComment.side}\n${code}\n${comment.priority ?? "low"}\n${message}`,
+			)
+			.digest("hex")
+			.slice(0, 16);
 
-		// Check if this is a synchronize event (new commits pushed to PR)
-		const isSynchronizeEvent = this.context.payload.action === "synchronize";
+		return {
+			...diffComment,
+			body: `${diffComment.body}\n\n<sub>\`loxops:${fingerprint.slice(0, SHORT_FINGERPRINT_LENGTH)}\`</sub>\n\n<!-- loxops:fingerprint ${fingerprint} -->\n<!-- loxops:priority ${comment.priority ?? "low"} -->`,
+		};
+	}
 
-		if (isSynchronizeEvent && this.context.payload.after) {
-			// For synchronize events, only get files from the latest commit
-			core.info(
-				"PR synchronize event detected - getting only files from latest commit",
-			);
-			files = await this.getFilesFromCommit(this.context.payload.after);
-		} else {
-			// For other events, get all files changed in the PR
-			files = await this.getChangedFiles(pr.number);
-		}
+	/**
+	 * Drops comments whose finding Loxops already posted in an earlier review. Earlier comments are
+	 * left as they are, since their threads may already hold replies about them.
+	 */
+	protected async removeDuplicateComments(
+		prNumber: number,
+		comments: DiffComment[],
+	): Promise<{ fresh: DiffComment[]; duplicates: number }> {
+		const previous = new Set<string>();
 
-		// Limit number of files to analyze
-		if (files.length > maxFiles) {
+		try {
+			const reviewComments = await this.listReviewComments(prNumber);
+
+			for (const comment of reviewComments) {
+				const fingerprint = comment.body.match(FINGERPRINT_MARKER)?.[1];
+				if (fingerprint && this.isOwnAccount(comment.user)) {
+					previous.add(fingerprint);
+				}
+			}
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(
+					`Error fetching earlier review comments: ${error.message}`,
+				);
+			}
+			return { fresh: comments, duplicates: 0 };
+		}
+
+		const fresh = comments.filter((comment) => {
+			const fingerprint = comment.body.match(FINGERPRINT_MARKER)?.[1];
+			return !fingerprint || !previous.has(fingerprint);
+		});
+		const duplicates = comments.length - fresh.length;
+
+		if (duplicates > 0) {
+			core.info(
+				`Skipped ${duplicates} comments already posted in an earlier review`,
+			);
+		}
+		return { fresh, duplicates };
+	}
+
+	/**
+	 * Finds the diff line a comment outside the diff most likely refers to. Only the lines changed on
+	 * the comment's side of the hunk nearest to it are candidates: the nearest one containing code
+	 * quoted in the comment, or else the nearest one a few lines away.
+	 */
+	protected relocateComment(
+		comment: ReviewComment,
+		hunks: DiffHunk[],
+	): ReviewComment | undefined {
+		const side = comment.side ?? "RIGHT";
+		const distance = (line: number) => Math.abs(line - comment.line);
+		const nearest = (lines: number[]) =>
+			lines.reduce(
+				(best: number | undefined, line) =>
+					best === undefined || distance(line) < distance(best) ? line : best,
+				undefined,
+			);
+
+		// Distance from the comment to the lines the hunk covers on the comment's side
+		const hunkDistance = (hunk: DiffHunk) => {
+			const start = side === "LEFT" ? hunk.oldStart : hunk.newStart;
+			const end = start + (side === "LEFT" ? hunk.oldLines : hunk.newLines) - 1;
+			return Math.max(0, start - comment.line, comment.line - end);
+		};
+		const hunk = hunks.reduce(
+			(best: DiffHunk | undefined, candidate) =>
+				best === undefined || hunkDistance(candidate) < hunkDistance(best)
+					? candidate
+					: best,
+			undefined,
+		);
+		const changedLines = (hunk?.lines ?? []).filter(
+			(diffLine) => diffLine.type === (side === "LEFT" ? "removed" : "added"),
+		);
+		const lineNumber = (diffLine: DiffLine) =>
+			(side === "LEFT" ? diffLine.oldLine : diffLine.newLine) as number;
+
+		const quoted = this.extractQuotedCode(comment.body);
+		let line = nearest(
+			changedLines
+				.filter((diffLine) =>
+					quoted.some((code) => diffLine.content.includes(code)),
+				)
+				.map(lineNumber),
+		);
+
+		if (line === undefined) {
+			const closest = nearest(changedLines.map(lineNumber));
+			if (closest !== undefined && distance(closest) <= RELOCATE_DISTANCE) {
+				line = closest;
+			}
+		}
+
+		if (line === undefined) {
+			return undefined;
+		}
+
+		// The original range and suggestion no longer match the new position
+		return {
+			path: comment.path,
+			line,
+			side,
+			priority: comment.priority,
+			body: `${this.withCodeExample(comment.body, comment.suggestion)}\n\n_${this.messages.review.relocatedNote(comment.line)}_`,
+		};
+	}
+
+	/**
+	 * Collects inline code and code block lines quoted in a comment, long enough to identify a line
+	 */
+	private extractQuotedCode(body: string): string[] {
+		const inline = [...body.matchAll(/`([^`\n]+)`/g)].map((match) => match[1]);
+		const blocks = [...body.matchAll(/```[^\n]*\n([\s\S]*?)```/g)].flatMap(
+			(match) => match[1].split("\n"),
+		);
+
+		return [...inline, ...blocks]
+			.map((code) => code.trim())
+			.filter((code) => code.length >= MIN_QUOTED_CODE_LENGTH);
+	}
+
+	/**
+	 * Lists comments that could not be placed on the diff, linking each to its line
+	 */
+	protected formatAdditionalFindings(
+		comments: ReviewComment[],
+		refs: { head: string; base: string },
+	): string {
+		if (comments.length === 0) {
+			return "";
+		}
+
+		const { owner, repo } = this.context.repo;
+		const items = comments.map((comment) => {
+			const ref = comment.side === "LEFT" ? refs.base : refs.head;
+			const url = `${this.context.serverUrl}/${owner}/${repo}/blob/${ref}/${comment.path}#L${comment.line}`;
+			const priority = comment.priority ? ` (${comment.priority})` : "";
+			const body = this.withCodeExample(
+				comment.body,
+				comment.suggestion,
+			).replace(/\n/g, "\n  ");
+			return `- [\`${comment.path}:${comment.line}\`](${url})${priority}: ${body}`;
+		});
+
+		return `\n\n## ${this.messages.review.additionalFindingsHeading}\n\n${items.join("\n\n")}`;
+	}
+
+	/**
+	 * Positions a comment on the diff. Ranges are kept when both ends lie within one hunk,
+	 * otherwise the comment degrades to its single line. Returns null for comments off the diff.
+	 */
+	protected toDiffComment(
+		comment: ReviewComment,
+		hunks: DiffHunk[] | undefined,
+		fileContent?: string,
+	): DiffComment | null {
+		if (!comment.body || !comment.path || comment.line <= 0 || !hunks) {
+			return null;
+		}
+
+		const side = comment.side ?? "RIGHT";
+
+		if (comment.startLine !== undefined) {
+			const endLine = comment.endLine ?? comment.line;
+
+			if (findDiffRange(hunks, comment.startLine, endLine, side)) {
+				return {
+					path: comment.path,
+					body: this.formatCommentBody(
+						comment,
+						comment.startLine,
+						endLine,
+						hunks,
+						fileContent,
+					),
+					line: endLine,
+					side,
+					start_line: comment.startLine,
+					start_side: side,
+				};
+			}
+			core.info(
+				`Lines ${comment.startLine}-${endLine} of ${comment.path} are not within one diff hunk, posting a single-line comment`,
+			);
+		}
+
+		// RIGHT comments need a line of the new file, LEFT comments a line of the old file
+		if (!findDiffLine(hunks, comment.line, side)) {
+			return null;
+		}
+
+		// A suggestion written for a range cannot replace just its last line
+		const suggestionComment =
+			comment.startLine !== undefined
+				? { ...comment, suggestion: undefined }
+				: comment;
+		return {
+			path: comment.path,
+			body: this.formatCommentBody(
+				suggestionComment,
+				comment.line,
+				comment.line,
+				hunks,
+				fileContent,
+			),
+			line: comment.line,
+			side,
+		};
+	}
+
+	/**
+	 * Renders the suggestion of a comment as a committable suggestion block when it can replace
+	 * the commented lines exactly, or as a plain code example otherwise
+	 */
+	protected formatCommentBody(
+		comment: ReviewComment,
+		startLine: number,
+		endLine: number,
+		hunks: DiffHunk[],
+		fileContent?: string,
+	): string {
+		if (comment.suggestion === undefined) {
+			return comment.body;
+		}
+
+		if (
+			(comment.side ?? "RIGHT") === "RIGHT" &&
+			fileContent !== undefined &&
+			canApplySuggestion(
+				hunks,
+				fileContent,
+				startLine,
+				endLine,
+				comment.suggestion,
+			)
+		) {
+			return `${comment.body}\n\n\`\`\`suggestion\n${comment.suggestion}\n\`\`\``;
+		}
+
+		core.info(
+			`Suggestion for ${comment.path}:${startLine}-${endLine} does not match the changed lines, posting it as a code example`,
+		);
+		return this.withCodeExample(comment.body, comment.suggestion);
+	}
+
+	/**
+	 * Appends a suggestion that cannot be committed as a plain code example
+	 */
+	private withCodeExample(body: string, suggestion?: string): string {
+		if (suggestion === undefined) {
+			return body;
+		}
+		return `${body}\n\n**${this.messages.review.suggestedCode}**\n\n\`\`\`\n${suggestion}\n\`\`\``;
+	}
+
+	/**
+	 * Publishes the review as a completed check run on the head commit, with the summary as its
+	 * output and each comment on the new version of a file as an annotation
+	 */
+	async createCheckRun(
+		prNumber: number,
+		review: StructuredReview,
+		skippedFiles: SkippedFile[] = [],
+	): Promise<void> {
+		const { owner, repo } = this.context.repo;
+
+		try {
+			const { data: pr } = await this.octokit.rest.pulls.get({
+				owner,
+				repo,
+				pull_number: prNumber,
+			});
+
+			// Annotations can only point at lines of the head commit
+			const annotations = review.comments
+				.filter((comment) => (comment.side ?? "RIGHT") === "RIGHT")
+				.map((comment) => ({
+					path: comment.path,
+					start_line: comment.startLine ?? comment.line,
+					end_line: comment.endLine ?? comment.line,
+					annotation_level: ANNOTATION_LEVELS[comment.priority ?? "low"],
+					title: comment.priority,
+					message: this.withCodeExample(comment.body, comment.suggestion),
+				}));
+			const removedLineComments = review.comments.filter(
+				(comment) => comment.side === "LEFT",
+			);
+
+			const summary = `## ${this.messages.review.overallAssessment}\n\n${review.summary}${this.formatAdditionalFindings(
+				removedLineComments,
+				{ head: pr.head.sha, base: pr.base.sha },
+			)}${this.formatSkippedFiles(skippedFiles)}`;
+			const output = (batch: typeof annotations) => ({
+				title: this.messages.review.checkRunTitle(annotations.length),
+				summary: summary.slice(0, MAX_CHECK_SUMMARY_LENGTH),
+				annotations: batch,
+			});
+			const batches = chunkArray(annotations, ANNOTATIONS_PER_REQUEST);
+			const conclusion = annotations.some(
+				(annotation) => annotation.annotation_level === "failure",
+			)
+				? "failure"
+				: review.comments.length > 0
+					? "neutral"
+					: "success";
+
+			// The first request creates the run, the remaining annotations are added by updates
+			const { data: checkRun } = await this.octokit.rest.checks.create({
+				owner,
+				repo,
+				name: "Loxops",
+				head_sha: pr.head.sha,
+				status: batches.length > 1 ? "in_progress" : "completed",
+				...(batches.length > 1 ? {} : { conclusion }),
+				output: output(batches[0] ?? []),
+			});
+
+			for (const [index, batch] of batches.slice(1).entries()) {
+				const isLast = index === batches.length - 2;
+				await this.octokit.rest.checks.update({
+					owner,
+					repo,
+					check_run_id: checkRun.id,
+					...(isLast ? { status: "completed", conclusion } : {}),
+					output: output(batch),
+				});
+			}
+
+			core.info(
+				`Successfully published check run with ${annotations.length} annotations`,
+			);
+		} catch (error) {
+			core.error(
+				`Error publishing check run: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Lists the files left out of the review with the reason each was skipped
+	 */
+	protected formatSkippedFiles(skippedFiles: SkippedFile[]): string {
+		if (skippedFiles.length === 0) {
+			return "";
+		}
+
+		const items = skippedFiles.map(({ filename, reason, score }) => {
+			const detail =
+				score !== undefined
+					? ` (${this.messages.review.riskScore} ${score})`
+					: "";
+			return `- \`${filename}\`: ${this.messages.review.skipReasons[reason]}${detail}`;
+		});
+
+		return `\n\n<details>\n<summary>${this.messages.review.skippedFilesHeading(skippedFiles.length)}</summary>\n\n${items.join("\n")}\n</details>`;
+	}
+
+	/**
+	 * Puts the walkthrough into the pull request description. The description is fetched right
+	 * before the update, so edits the author made while the review ran are kept.
+	 */
+	async updatePullRequestWalkthrough(
+		prNumber: number,
+		walkthrough: string,
+	): Promise<void> {
+		const { owner, repo } = this.context.repo;
+
+		try {
+			const { data } = await this.octokit.rest.pulls.get({
+				owner,
+				repo,
+				pull_number: prNumber,
+			});
+			await this.octokit.rest.pulls.update({
+				owner,
+				repo,
+				pull_number: prNumber,
+				body: insertWalkthrough(data.body, walkthrough),
+			});
+			core.info("Updated the pull request description");
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(
+					`Error updating the pull request description: ${error.message}`,
+				);
+			}
+		}
+	}
+
+	async getLabels(prNumber: number): Promise<string[]> {
+		const { owner, repo } = this.context.repo;
+
+		try {
+			const labels = await this.octokit.paginate(
+				this.octokit.rest.issues.listLabelsOnIssue,
+				{
+					owner,
+					repo,
+					issue_number: prNumber,
+					per_page: 100,
+				},
+			);
+			return labels.map((label) => label.name);
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(`Error fetching pull request labels: ${error.message}`);
+			}
+			return [];
+		}
+	}
+
+	/**
+	 * Returns the labels of the pull request the action's own account added last, so labels a
+	 * person applied or re-applied are never removed
+	 */
+	async getOwnLabels(prNumber: number): Promise<string[]> {
+		const { owner, repo } = this.context.repo;
+		const addedBy = new Map<string, boolean>();
+
+		try {
+			const events = await this.octokit.paginate(
+				this.octokit.rest.issues.listEvents,
+				{
+					owner,
+					repo,
+					issue_number: prNumber,
+					per_page: 100,
+				},
+			);
+			for (const event of events) {
+				if (event.event === "labeled" && "label" in event) {
+					addedBy.set(event.label.name, this.isOwnAccount(event.actor));
+				}
+			}
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(
+					`Error fetching pull request label events: ${error.message}`,
+				);
+			}
+		}
+
+		return [...addedBy].filter(([, own]) => own).map(([label]) => label);
+	}
+
+	/**
+	 * Adds and removes pull request labels, creating added labels missing from the repository
+	 */
+	async updateLabels(
+		prNumber: number,
+		add: string[],
+		remove: string[],
+	): Promise<void> {
+		const { owner, repo } = this.context.repo;
+
+		try {
+			for (const name of add) {
+				try {
+					await this.octokit.rest.issues.getLabel({ owner, repo, name });
+				} catch (error) {
+					if (
+						!(
+							error instanceof Error &&
+							"status" in error &&
+							error.status === 404
+						)
+					) {
+						throw error;
+					}
+					await this.octokit.rest.issues.createLabel({
+						owner,
+						repo,
+						name,
+						color: getLabelColor(name),
+					});
+				}
+			}
+
+			if (add.length > 0) {
+				await this.octokit.rest.issues.addLabels({
+					owner,
+					repo,
+					issue_number: prNumber,
+					labels: add,
+				});
+			}
+
+			for (const name of remove) {
+				await this.octokit.rest.issues.removeLabel({
+					owner,
+					repo,
+					issue_number: prNumber,
+					name,
+				});
+			}
+
+			core.info(
+				`Updated labels: added ${add.join(", ") || "none"}, removed ${remove.join(", ") || "none"}`,
+			);
+		} catch (error) {
+			core.warning(
+				`Error updating pull request labels: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	async getCommentsForPR(prNumber: number): Promise<UserComment[]> {
+		core.info(`Fetching comments for PR #${prNumber}...`);
+
+		const comments: UserComment[] = [];
+
+		try {
+			// Get issue comments (general PR comments)
+			const issueComments = await this.listIssueComments(prNumber);
+
+			// Get PR review comments (inline comments)
+			const reviewComments = await this.listReviewComments(prNumber);
+
+			// Get submitted reviews, whose bodies hold the reviewers' overall feedback
+			const reviews = await this.listReviews(prNumber);
+
+			// Process issue comments
+			for (const comment of issueComments) {
+				// Skip bot comments including our own AI reviews
+				if (
+					comment.user?.type === "Bot" ||
+					comment.body?.startsWith("# Loxops")
+				) {
+					continue;
+				}
+
+				if (comment.user && comment.body && comment.created_at) {
+					comments.push({
+						id: comment.id.toString(),
+						user: comment.user.login,
+						body: comment.body,
+						createdAt: comment.created_at,
+					});
+				}
+			}
+
+			// Process review comments
+			for (const comment of reviewComments) {
+				// Skip bot comments
+				if (comment.user?.type === "Bot") {
+					continue;
+				}
+
+				if (comment.user && comment.body && comment.created_at) {
+					comments.push({
+						id: comment.id.toString(),
+						user: comment.user.login,
+						body: comment.body,
+						createdAt: comment.created_at,
+						path: comment.path,
+						line: comment.line || comment.original_line || undefined,
+					});
+				}
+			}
+
+			// Process review bodies
+			for (const review of reviews) {
+				if (review.user?.type === "Bot") {
+					continue;
+				}
+
+				if (review.user && review.body && review.submitted_at) {
+					comments.push({
+						id: review.id.toString(),
+						user: review.user.login,
+						body: review.body,
+						createdAt: review.submitted_at,
+					});
+				}
+			}
+
+			core.info(`Found ${comments.length} user comments`);
+			return comments;
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(`Error fetching comments: ${error.message}`);
+			}
+			return [];
+		}
+	}
+
+	/**
+	 * Lists the unresolved review threads started by Loxops line comments
+	 */
+	async getOpenLoxopsThreads(prNumber: number): Promise<ReviewThread[]> {
+		const { owner, repo } = this.context.repo;
+		const threads: ReviewThread[] = [];
+		let cursor: string | null = null;
+
+		try {
+			do {
+				const response: ReviewThreadsResponse =
+					await this.octokit.graphql<ReviewThreadsResponse>(
+						REVIEW_THREADS_QUERY,
+						{ owner, repo, number: prNumber, cursor },
+					);
+				const { pageInfo, nodes } =
+					response.repository.pullRequest.reviewThreads;
+
+				for (const node of nodes) {
+					const [first] = node.comments.nodes;
+					// Only threads the action's own account opened with a Loxops fingerprint
+					if (
+						node.isResolved ||
+						!first?.body.match(FINGERPRINT_MARKER) ||
+						!this.isOwnAccount(this.toRestUser(first.author))
+					) {
+						continue;
+					}
+
+					threads.push({
+						id: node.id,
+						path: node.path,
+						line: node.line ?? undefined,
+						originalLine: node.originalLine ?? undefined,
+						commentId: first.databaseId,
+						body: first.body,
+						diffHunk: first.diffHunk,
+						priority: (first.body.match(PRIORITY_MARKER)?.[1] ??
+							"low") as CommentPriority,
+					});
+				}
+
+				cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+			} while (cursor);
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(`Error fetching review threads: ${error.message}`);
+			}
+		}
+
+		return threads;
+	}
+
+	/**
+	 * Resolves a review thread and replies with the commit that addressed it
+	 */
+	async resolveReviewThread(
+		prNumber: number,
+		thread: ReviewThread,
+		commitSha: string,
+	): Promise<void> {
+		await this.replyAndResolve(
+			prNumber,
+			thread,
+			this.messages.review.threadResolvedNote(commitSha.slice(0, 7)),
+		);
+	}
+
+	/**
+	 * Dismisses the change requests the action submitted in earlier reviews, once a later review
+	 * no longer requests changes. Returns the number of dismissed reviews.
+	 */
+	async dismissChangeRequests(
+		prNumber: number,
+		commitSha: string,
+	): Promise<number> {
+		const { owner, repo } = this.context.repo;
+		let dismissed = 0;
+
+		try {
+			const reviews = await this.listReviews(prNumber);
+
+			for (const review of reviews) {
+				if (
+					review.state !== "CHANGES_REQUESTED" ||
+					!this.isOwnAccount(review.user)
+				) {
+					continue;
+				}
+
+				await this.octokit.rest.pulls.dismissReview({
+					owner,
+					repo,
+					pull_number: prNumber,
+					review_id: review.id,
+					message: this.messages.review.changesRequestDismissed(
+						commitSha.slice(0, 7),
+					),
+				});
+				dismissed++;
+			}
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(
+					`Error dismissing earlier change requests: ${error.message}`,
+				);
+			}
+		}
+
+		if (dismissed > 0) {
+			core.info(`Dismissed ${dismissed} earlier Loxops change requests`);
+		}
+		return dismissed;
+	}
+
+	/**
+	 * Resolves the open Loxops thread whose fingerprint starts with the given one. The resolved
+	 * comment keeps its fingerprint, so later reviews skip the finding as already posted.
+	 * Returns the number of matching open threads. Nothing is resolved unless exactly one matches.
+	 */
+	async ignoreFinding(
+		prNumber: number,
+		fingerprint: string,
+		username: string,
+	): Promise<number> {
+		const threads = await this.getOpenLoxopsThreads(prNumber);
+		const matches = threads.filter((candidate) =>
+			candidate.body.match(FINGERPRINT_MARKER)?.[1].startsWith(fingerprint),
+		);
+
+		if (matches.length !== 1) {
+			return matches.length;
+		}
+
+		await this.replyAndResolve(
+			prNumber,
+			matches[0],
+			this.messages.command.findingIgnored(username),
+		);
+		return 1;
+	}
+
+	/**
+	 * Resolves the thread first and only then replies, so a failed resolution does not leave an
+	 * open thread saying it was resolved
+	 */
+	private async replyAndResolve(
+		prNumber: number,
+		thread: ReviewThread,
+		body: string,
+	): Promise<void> {
+		const { owner, repo } = this.context.repo;
+
+		await this.octokit.graphql(RESOLVE_THREAD_MUTATION, {
+			threadId: thread.id,
+		});
+		await this.octokit.rest.pulls.createReplyForReviewComment({
+			owner,
+			repo,
+			pull_number: prNumber,
+			comment_id: thread.commentId,
+			body,
+		});
+	}
+
+	/**
+	 * Returns the Loxops review thread the comment of a pull_request_review_comment event replied to.
+	 * Returns undefined for other events, top-level comments, replies by bots or Loxops itself, and
+	 * threads that do not start with a finding posted by the action's own account.
+	 */
+	async getReviewConversation(): Promise<ReviewConversation | undefined> {
+		const { comment, pull_request } = this.context.payload;
+
+		if (
+			this.context.eventName !== "pull_request_review_comment" ||
+			!comment?.in_reply_to_id ||
+			!pull_request ||
+			comment.user?.type === "Bot" ||
+			comment.body?.includes(REPLY_MARKER)
+		) {
+			return undefined;
+		}
+
+		const comments = await this.listReviewComments(pull_request.number);
+
+		const root = comments.find(
+			(candidate) => candidate.id === comment.in_reply_to_id,
+		);
+		if (
+			!root ||
+			!this.isOwnAccount(root.user) ||
+			!FINGERPRINT_MARKER.test(root.body)
+		) {
+			return undefined;
+		}
+
+		// The triggering reply may not be listed yet right after it was posted
+		const replies = comments.filter(
+			(candidate) => candidate.in_reply_to_id === root.id,
+		);
+		if (!replies.some((reply) => reply.id === comment.id)) {
+			replies.push(comment as (typeof comments)[number]);
+		}
+		replies.sort((a, b) => a.id - b.id);
+
+		return {
+			pullRequestNumber: pull_request.number,
+			headSha: pull_request.head.sha,
+			rootCommentId: root.id,
+			path: root.path,
+			line: root.line ?? root.original_line ?? undefined,
+			diffHunk: root.diff_hunk,
+			messages: [root, ...replies].map((message) => ({
+				author: message.user?.login ?? "unknown",
+				body: message.body.replace(/<!--[\s\S]*?-->/g, "").trim(),
+				fromLoxops:
+					message.id === root.id ||
+					(this.isOwnAccount(message.user) &&
+						message.body.includes(REPLY_MARKER)),
+			})),
+		};
+	}
+
+	/**
+	 * Replies in a Loxops review thread, marking the reply so it counts against the reply cap
+	 */
+	async replyInThread(
+		prNumber: number,
+		rootCommentId: number,
+		body: string,
+	): Promise<void> {
+		const { owner, repo } = this.context.repo;
+
+		await this.octokit.rest.pulls.createReplyForReviewComment({
+			owner,
+			repo,
+			pull_number: prNumber,
+			comment_id: rootCommentId,
+			body: `${body}\n\n${REPLY_MARKER}`,
+		});
+	}
+
+	/**
+	 * Finds the head commit recorded in the latest Loxops summary comment of the pull request.
+	 * Only summary comments of the action's own account count, so nobody else can skip commits.
+	 */
+	async getLastReviewedSha(prNumber: number): Promise<string | undefined> {
+		try {
+			const comments = await this.listIssueComments(prNumber);
+
+			for (const comment of comments.reverse()) {
+				// Summaries posted in append mode carry no summary marker
+				if (
+					!this.isOwnAccount(comment.user) ||
+					(this.summaryCommentMode === "update" &&
+						!comment.body?.includes(SUMMARY_MARKER))
+				) {
+					continue;
+				}
+
+				const match = comment.body?.match(REVIEWED_SHA_MARKER);
+				if (match) {
+					return match[1];
+				}
+			}
+		} catch (error) {
+			if (error instanceof Error) {
+				core.warning(
+					`Error finding the last reviewed commit: ${error.message}`,
+				);
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Lists the files changed between the last reviewed commit and the new head. Returns null when
+	 * the last reviewed commit is no longer an ancestor of the head, e.g. after a force-push.
+	 */
+	async getFilesSinceCommit(
+		baseSha: string,
+		headSha: string,
+	): Promise<FileChange[] | null> {
+		const { owner, repo } = this.context.repo;
+		core.info(`Fetching files changed between ${baseSha} and ${headSha}...`);
+
+		try {
+			const response = await this.octokit.rest.repos.compareCommitsWithBasehead(
+				{
+					owner,
+					repo,
+					basehead: `${baseSha}...${headSha}`,
+				},
+			);
+
+			if (response.data.status !== "ahead") {
+				core.info(
+					`Head is ${response.data.status} compared to the last reviewed commit, history was rewritten`,
+				);
+				return null;
+			}
+
+			// The comparison lists at most this many files, the paginated pull request files are complete
+			if ((response.data.files ?? []).length >= MAX_COMPARE_FILES) {
+				core.info(
+					`More than ${MAX_COMPARE_FILES} files changed since ${baseSha}, reviewing the whole PR`,
+				);
+				return null;
+			}
+
+			const changedFiles: FileChange[] = [];
+
+			for (const file of response.data.files || []) {
+				if (!this.fileAnalyzer.shouldAnalyzeFile(file.filename)) {
+					continue;
+				}
+
+				changedFiles.push({
+					filename: file.filename,
+					status: file.status as "added" | "modified" | "removed" | "renamed",
+					patch: file.patch,
+					additions: file.additions,
+					deletions: file.deletions,
+				});
+			}
+
+			core.info(
+				`Found ${changedFiles.length} relevant files changed since ${baseSha}`,
+			);
+			return changedFiles;
+		} catch (error) {
+			// The last reviewed commit disappears when a force-push is garbage collected
+			if (error instanceof Error) {
+				core.warning(
+					`Error comparing ${baseSha} with ${headSha}: ${error.message}`,
+				);
+			}
+			return null;
+		}
+	}
+
+	/**
+	 * Collects the pull request and its changed files for review. When paths are given, only
+	 * changed files matching one of the globs are reviewed.
+	 */
+	async prepareReviewContext(
+		maxFiles: number,
+		projectType: ProjectType = "auto",
+		paths: string[] = [],
+	): Promise<ReviewContext> {
+		const pr = await this.getPullRequestDetails();
+		let files: FileChange[] = [];
+
+		// Check if this is a synchronize event (new commits pushed to PR)
+		const isSynchronizeEvent = this.context.payload.action === "synchronize";
+
+		// For synchronize events, only review the commits pushed since the last review
+		let incrementalFiles: FileChange[] | null = null;
+		let lastReviewedSha: string | undefined;
+		if (isSynchronizeEvent) {
+			lastReviewedSha = await this.getLastReviewedSha(pr.number);
+
+			if (lastReviewedSha && lastReviewedSha !== pr.head.sha) {
+				core.info(
+					`PR synchronize event detected - reviewing changes since ${lastReviewedSha}`,
+				);
+				incrementalFiles = await this.getFilesSinceCommit(
+					lastReviewedSha,
+					pr.head.sha,
+				);
+			}
+		}
+
+		if (incrementalFiles) {
+			files = incrementalFiles;
+		} else {
+			// Otherwise, get all files changed in the PR
+			if (isSynchronizeEvent) {
+				core.info("No incremental base found - reviewing the whole PR");
+			}
+			files = await this.getChangedFiles(pr.number);
+		}
+
+		if (paths.length > 0) {
+			const pathFilter = ignore().add(paths);
+			files = files.filter((file) => pathFilter.ignores(file.filename));
+			core.info(`Reviewing ${files.length} files matching ${paths.join(", ")}`);
+		}
+
+		// Limit number of files to analyze, keeping the riskiest ones
+		let skippedFiles: SkippedFile[] = [];
+		if (maxFiles > 0 && files.length > maxFiles) {
 			core.warning(
 				`Limiting analysis to ${maxFiles} files out of ${files.length} changed files`,
 			);
-			files = files.slice(0, maxFiles);
+			const prioritizer = new FilePrioritizerService(
+				this.octokit,
+				this.context.repo,
+				projectType,
+			);
+			const { selected, skipped } = await prioritizer.prioritize(
+				files,
+				maxFiles,
+			);
+			files = selected;
+			skippedFiles = skipped;
 		}
 
+		// The old version of a file is the one the patches compare against
+		const comparedSha = incrementalFiles ? lastReviewedSha : undefined;
+
 		// Fetch full content for each file
 		for (const file of files) {
 			if (file.status !== "removed") {
@@ -497,7 +1893,7 @@ export class GitHubService {
 			if (file.status === "modified" || file.status === "renamed") {
 				file.previousContent = await this.getFileContent(
 					file.filename,
-					pr.base.ref,
+					comparedSha ?? pr.base.ref,
 				);
 			}
 		}
@@ -517,6 +1913,10 @@ export class GitHubService {
 			files,
 			relatedFiles: {},
 			userComments,
+			skippedFiles,
+			headSha: pr.head.sha,
+			comparedSha,
+			partial: incrementalFiles !== null || paths.length > 0,
 		};
 
 		return context;
@@ -0,0 +1,152 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as core from "@actions/core";
+import ignore from "ignore";
+import type { FileChange, ProjectPartition, ReviewOptions } from "../types";
+import type { FileAnalyzerService } from "./file-analyzer";
+
+// Files whose presence marks a directory as the root of a project
+const PROJECT_MANIFESTS = [
+	"ProjectSettings",
+	"build.gradle",
+	"build.gradle.kts",
+	"pom.xml",
+	"package.json",
+	"pyproject.toml",
+	"requirements.txt",
+];
+
+export class ProjectPartitionerService {
+	private options: ReviewOptions;
+	private workspace: string;
+	private fileAnalyzer: FileAnalyzerService;
+	private rootCache = new Map<string, boolean>();
+
+	constructor(
+		options: ReviewOptions,
+		workspace: string,
+		fileAnalyzer: FileAnalyzerService,
+	) {
+		this.options = options;
+		this.workspace = workspace;
+		this.fileAnalyzer = fileAnalyzer;
+	}
+
+	/**
+	 * Groups changed files by project root so each group can be reviewed with its own template.
+	 * Configured projects take precedence over roots found from manifests in the workspace.
+	 */
+	partition(files: FileChange[]): ProjectPartition[] {
+		const partitions = new Map<string, ProjectPartition>();
+
+		for (const file of files) {
+			const target = this.findConfiguredProject(file.filename) ??
+				this.findManifestProject(file.filename) ?? {
+					name: "(root)",
+					root: ".",
+					projectType: this.options.projectType,
+				};
+
+			const key = `${target.root}:${target.name}`;
+			const partition = partitions.get(key);
+
+			if (partition) {
+				partition.files.push(file);
+			} else {
+				partitions.set(key, { ...target, files: [file] });
+			}
+		}
+
+		const result = [...partitions.values()];
+
+		// Partitions without a configured type are detected from their own files and manifests
+		for (const partition of result) {
+			if (partition.projectType === "auto") {
+				partition.projectType = this.fileAnalyzer.detectProjectType(
+					partition.files,
+					partition.root,
+				).projectType;
+			}
+		}
+
+		core.info(
+			`Partitioned ${files.length} files into ${result.length} projects: ${result
+				.map((p) => `${p.name} (${p.projectType}, ${p.files.length} files)`)
+				.join(", ")}`,
+		);
+		return result;
+	}
+
+	private findConfiguredProject(
+		filename: string,
+	): Omit<ProjectPartition, "files"> | null {
+		for (const project of this.options.projects ?? []) {
+			if (!ignore().add(project.paths).ignores(filename)) {
+				continue;
+			}
+
+			const root = this.getStaticPrefix(project.paths[0]);
+			return {
+				name: project.name ?? root,
+				root,
+				projectType: project.projectType,
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Walks up from the file's directory to the nearest directory containing a project manifest
+	 */
+	private findManifestProject(
+		filename: string,
+	): Omit<ProjectPartition, "files"> | null {
+		let dir = path.posix.dirname(filename);
+
+		while (true) {
+			if (this.isProjectRoot(dir)) {
+				return {
+					name: dir === "." ? "(root)" : dir,
+					root: dir,
+					projectType: this.options.projectType,
+				};
+			}
+
+			if (dir === ".") {
+				return null;
+			}
+			dir = path.posix.dirname(dir);
+		}
+	}
+
+	private isProjectRoot(dir: string): boolean {
+		const cached = this.rootCache.get(dir);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		const isRoot = PROJECT_MANIFESTS.some((manifest) =>
+			fs.existsSync(path.join(this.workspace, dir, manifest)),
+		);
+		this.rootCache.set(dir, isRoot);
+		return isRoot;
+	}
+
+	/**
+	 * Returns the directory part of a glob before its first wildcard, e.g. "server/**" -> "server"
+	 */
+	private getStaticPrefix(glob: string): string {
+		const segments = glob.split("/");
+		const staticSegments: string[] = [];
+
+		for (const segment of segments) {
+			if (/[*?[\]{}]/.test(segment)) {
+				break;
+			}
+			staticSegments.push(segment);
+		}
+
+		return staticSegments.join("/") || ".";
+	}
+}
@@ -0,0 +1,120 @@
+import * as core from "@actions/core";
+import type { ReviewThread, ThreadResolutionMode } from "../types";
+import type { ClaudeService } from "./claude";
+import type { GitHubService } from "./github";
+
+// Commented lines shorter than this, such as a closing brace, occur too often to tell whether they changed
+const MIN_ANCHOR_LENGTH = 8;
+// Lines of current code shown to Claude above and below the commented line
+const CODE_CONTEXT_LINES = 10;
+
+export class ThreadResolverService {
+	private githubService: GitHubService;
+	private claudeService: ClaudeService;
+	private mode: ThreadResolutionMode;
+
+	constructor(
+		githubService: GitHubService,
+		claudeService: ClaudeService,
+		mode: ThreadResolutionMode,
+	) {
+		this.githubService = githubService;
+		this.claudeService = claudeService;
+		this.mode = mode;
+	}
+
+	/**
+	 * Resolves open Loxops threads whose commented line no longer exists in the head commit,
+	 * after Claude confirms the fix in "claude" mode. Returns the number of resolved threads.
+	 */
+	async resolveFixedThreads(
+		prNumber: number,
+		headSha: string,
+	): Promise<number> {
+		if (this.mode === "off") {
+			return 0;
+		}
+
+		const threads = await this.githubService.getOpenLoxopsThreads(prNumber);
+		const fileContents = new Map<string, string | undefined>();
+		let resolved = 0;
+
+		for (const thread of threads) {
+			const anchor = this.getAnchorLine(thread);
+			if (!anchor) {
+				continue;
+			}
+
+			if (!fileContents.has(thread.path)) {
+				fileContents.set(
+					thread.path,
+					await this.githubService.findFileContent(thread.path, headSha),
+				);
+			}
+			// Without the current code there is no telling whether the commented line is gone
+			const content = fileContents.get(thread.path);
+			if (content === undefined) {
+				core.info(
+					`Skipping the thread on ${thread.path}, its file could not be fetched`,
+				);
+				continue;
+			}
+			const lines = content.split("\n");
+
+			if (lines.some((line) => line.trim() === anchor)) {
+				continue;
+			}
+
+			if (
+				this.mode === "claude" &&
+				!(await this.claudeService.isConcernAddressed(
+					thread,
+					this.getCodeAround(lines, thread),
+				))
+			) {
+				core.info(
+					`Code of the thread on ${thread.path} changed but does not address the comment`,
+				);
+				continue;
+			}
+
+			try {
+				await this.githubService.resolveReviewThread(prNumber, thread, headSha);
+				resolved++;
+			} catch (error) {
+				core.warning(
+					`Error resolving review thread on ${thread.path}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		}
+
+		core.info(
+			`Resolved ${resolved} of ${threads.length} open Loxops review threads`,
+		);
+		return resolved;
+	}
+
+	/**
+	 * Returns the commented line of the thread, which GitHub puts last in the comment's diff hunk.
+	 * Comments on removed lines and lines too short to recognize are skipped.
+	 */
+	private getAnchorLine(thread: ReviewThread): string | undefined {
+		const last = thread.diffHunk.trimEnd().split("\n").pop() ?? "";
+		if (!last.startsWith("+") && !last.startsWith(" ")) {
+			return undefined;
+		}
+
+		const anchor = last.slice(1).trim();
+		return anchor.length >= MIN_ANCHOR_LENGTH ? anchor : undefined;
+	}
+
+	private getCodeAround(lines: string[], thread: ReviewThread): string {
+		const center = thread.line ?? thread.originalLine ?? 1;
+		return lines
+			.slice(
+				Math.max(0, center - 1 - CODE_CONTEXT_LINES),
+				center + CODE_CONTEXT_LINES,
+			)
+			.join("\n");
+	}
+}
@@ -0,0 +1,279 @@
+import * as core from "@actions/core";
+import type { Messages } from "../i18n";
+import type {
+	FileChange,
+	LineRange,
+	RelatedFiles,
+	ReviewContext,
+} from "../types";
+import { annotatePatch, getHunkRanges } from "../utils/diff";
+import { estimateTokenCount } from "../utils/helpers";
+import { getModelContextWindow } from "../utils/models";
+
+// Tokens kept free for the response format instructions, the user message and the tool definition
+const INSTRUCTIONS_RESERVE = 2000;
+// Lines of file content kept above and below each hunk when whole files do not fit
+const WINDOW_CONTEXT_LINES = 20;
+// Sections that would get fewer tokens than this are dropped instead of truncated
+const MIN_SECTION_TOKENS = 200;
+// Headings and code fences the template wraps around each section
+const SECTION_OVERHEAD_TOKENS = 20;
+// Share of the prompt budget given to the file contents of one batch, leaving room for
+// the template, related files and repository context
+const BATCH_CONTENT_SHARE = 0.6;
+
+export class TokenBudgetService {
+	private messages: Messages;
+	private promptBudget: number;
+
+	constructor(model: string, maxOutputTokens: number, messages: Messages) {
+		this.messages = messages;
+		const contextWindow = getModelContextWindow(model);
+		this.promptBudget = contextWindow - maxOutputTokens - INSTRUCTIONS_RESERVE;
+		core.debug(
+			`Prompt budget: ${this.promptBudget} tokens (context window ${contextWindow}, output ${maxOutputTokens})`,
+		);
+	}
+
+	/**
+	 * Splits files in order into batches whose diffs and contents fit one prompt. Files beyond
+	 * `maxBatches` batches join the last batch, where fitContext truncates them.
+	 */
+	splitIntoBatches(files: FileChange[], maxBatches: number): FileChange[][] {
+		const batchTokens = this.promptBudget * BATCH_CONTENT_SHARE;
+		const groups: FileChange[][] = [];
+		let current: FileChange[] = [];
+		let currentTokens = 0;
+
+		for (const file of files) {
+			const tokens =
+				this.getPatchCost(file.patch ?? "") +
+				this.getSectionCost(file.fullContent ?? "");
+
+			if (current.length > 0 && currentTokens + tokens > batchTokens) {
+				groups.push(current);
+				current = [];
+				currentTokens = 0;
+			}
+			current.push(file);
+			currentTokens += tokens;
+		}
+		if (current.length > 0) {
+			groups.push(current);
+		}
+
+		if (groups.length <= maxBatches) {
+			return groups;
+		}
+
+		const overflow = groups.slice(maxBatches).flat();
+		this.logCut(
+			`added ${overflow.length} files to the last batch because max-batches (${maxBatches}) was reached`,
+		);
+		const capped = groups.slice(0, maxBatches);
+		capped[maxBatches - 1] = [...capped[maxBatches - 1], ...overflow];
+		return capped;
+	}
+
+	/**
+	 * Returns a copy of the context that fits the prompt budget. Sections are filled in priority order:
+	 * patches, then full file content (whole files, or windows around hunks when whole files do not fit),
+	 * then related files. `render` builds the prompt so the fixed parts of the template can be measured.
+	 */
+	fitContext(
+		context: ReviewContext,
+		render: (context: ReviewContext) => string,
+	): ReviewContext {
+		const files = context.files.map((file) => ({ ...file }));
+		const bareContext: ReviewContext = {
+			...context,
+			files: files.map((file) => ({
+				...file,
+				patch: undefined,
+				fullContent: undefined,
+			})),
+			relatedFiles: {},
+		};
+		let remaining = this.promptBudget - estimateTokenCount(render(bareContext));
+
+		for (const file of files) {
+			if (!file.patch) {
+				continue;
+			}
+
+			const cost = this.getPatchCost(file.patch);
+			if (cost <= remaining) {
+				remaining -= cost;
+				continue;
+			}
+
+			// Leave room for the line numbers the template adds to every kept line
+			const share = this.getSectionCost(file.patch) / cost;
+			file.patch = this.truncateLines(
+				file.patch,
+				Math.floor(remaining * share),
+			);
+			if (file.patch) {
+				this.logCut(`truncated the diff of ${file.filename}`);
+				remaining -= this.getPatchCost(file.patch);
+			} else {
+				this.logCut(`dropped the diff of ${file.filename}`);
+			}
+		}
+
+		const withContent = files.filter(
+			(file) => file.fullContent && file.status !== "removed",
+		);
+		const wholeCost = withContent.reduce(
+			(sum, file) => sum + this.getSectionCost(file.fullContent ?? ""),
+			0,
+		);
+
+		if (wholeCost <= remaining) {
+			remaining -= wholeCost;
+		} else {
+			for (const file of withContent) {
+				const original = context.files.find(
+					(f) => f.filename === file.filename,
+				);
+				const windows =
+					original?.patch && file.fullContent
+						? this.getContentWindows(
+								file.fullContent,
+								getHunkRanges(original.patch),
+							)
+						: undefined;
+
+				if (windows && this.getSectionCost(windows) <= remaining) {
+					file.fullContent = windows;
+					remaining -= this.getSectionCost(windows);
+					this.logCut(
+						`reduced the full content of ${file.filename} to windows around its changes`,
+					);
+				} else {
+					file.fullContent = undefined;
+					this.logCut(`dropped the full content of ${file.filename}`);
+				}
+			}
+		}
+
+		const relatedFiles: RelatedFiles = {};
+		for (const [changedFile, related] of Object.entries(context.relatedFiles)) {
+			const cost = this.getSectionCost(`${changedFile}\n${related.join("\n")}`);
+			if (cost > remaining) {
+				this.logCut(`dropped the related files of ${changedFile}`);
+				continue;
+			}
+			relatedFiles[changedFile] = related;
+			remaining -= cost;
+		}
+
+		return { ...context, files, relatedFiles };
+	}
+
+	/**
+	 * Fits the packed repository into what is left of the budget after the prompt,
+	 * or returns null when too little is left to be useful
+	 */
+	fitRepositoryContext(packedRepo: string, prompt: string): string | null {
+		const remaining = this.promptBudget - estimateTokenCount(prompt);
+
+		if (this.getSectionCost(packedRepo) <= remaining) {
+			return packedRepo;
+		}
+
+		const truncated = this.truncateLines(packedRepo, remaining);
+		this.logCut(
+			truncated
+				? "truncated the Repomix repository context"
+				: "dropped the Repomix repository context",
+		);
+		return truncated ?? null;
+	}
+
+	private getSectionCost(text: string): number {
+		return estimateTokenCount(text) + SECTION_OVERHEAD_TOKENS;
+	}
+
+	/**
+	 * Patches are rendered with old and new line numbers, which the raw patch does not include
+	 */
+	private getPatchCost(patch: string): number {
+		return this.getSectionCost(annotatePatch(patch));
+	}
+
+	/**
+	 * Keeps whole lines from the start of the text while the section fits in the given tokens,
+	 * noting how many lines were cut
+	 */
+	private truncateLines(text: string, tokens: number): string | undefined {
+		if (tokens < MIN_SECTION_TOKENS) {
+			return undefined;
+		}
+
+		const lines = text.split("\n");
+		let used = 0;
+		let kept = 0;
+
+		for (const line of lines) {
+			const cost = estimateTokenCount(`${line}\n`);
+			if (used + cost > tokens - SECTION_OVERHEAD_TOKENS) {
+				break;
+			}
+			used += cost;
+			kept++;
+		}
+
+		return [
+			...lines.slice(0, kept),
+			this.messages.prompt.truncatedLines(lines.length - kept),
+		].join("\n");
+	}
+
+	/**
+	 * Keeps the lines around each hunk and replaces the rest with markers naming the omitted lines
+	 */
+	private getContentWindows(
+		content: string,
+		hunks: LineRange[],
+	): string | undefined {
+		if (hunks.length === 0) {
+			return undefined;
+		}
+
+		const lines = content.split("\n");
+		const windows: LineRange[] = [];
+
+		for (const hunk of hunks) {
+			const start = Math.max(1, hunk.start - WINDOW_CONTEXT_LINES);
+			const end = Math.min(lines.length, hunk.end + WINDOW_CONTEXT_LINES);
+			const last = windows[windows.length - 1];
+
+			if (last && start <= last.end + 1) {
+				last.end = Math.max(last.end, end);
+			} else {
+				windows.push({ start, end });
+			}
+		}
+
+		const parts: string[] = [];
+		let next = 1;
+
+		for (const window of windows) {
+			if (window.start > next) {
+				parts.push(this.messages.prompt.omittedLines(next, window.start - 1));
+			}
+			parts.push(lines.slice(window.start - 1, window.end).join("\n"));
+			next = window.end + 1;
+		}
+		if (next <= lines.length) {
+			parts.push(this.messages.prompt.omittedLines(next, lines.length));
+		}
+
+		return parts.join("\n");
+	}
+
+	private logCut(description: string): void {
+		core.info(`Token budget: ${description}`);
+	}
+}
@@ -1,15 +1,8 @@
-import type { PromptTemplate, ReviewContext } from "../types";
+import type { PromptTemplate, ReviewContext, ReviewLanguage } from "../types";
 import { BasePromptTemplate } from "./base";
 
-export class AndroidPromptTemplate implements PromptTemplate {
-	generatePrompt(context: ReviewContext): string {
-		// Start with the base prompt
-		const basePrompt = new BasePromptTemplate().generatePrompt(context);
-
-		// Add Android-specific guidance
-		return `${basePrompt}
-
-Android 프로젝트 관련 추가 지침:
+const ANDROID_GUIDANCE: Record<ReviewLanguage, string> = {
+	ko: `Android 프로젝트 관련 추가 지침:
 
 1. 아키텍처 및 설계 패턴:
    - 클린 아키텍처: 계층 간 명확한 책임 분리와 의존성 규칙 준수를 평가하세요(데이터, 도메인, 표현 계층).
@@ -68,6 +61,145 @@ Android 프로젝트 관련 추가 지침:
    - 다양한 기기 지원: 다양한 화면 크기, 폴더블, 태블릿 지원을 위한 UI 조정을 확인하세요.
 
 이러한 지침을 바탕으로 모던 Android 개발 모범 사례를 반영한 깊이 있는 코드 리뷰를 제공해주세요. 각 항목에 대해 구체적인 코드 예시를 포함한 실행 가능한 개선 방안을 제시하세요.
-`;
+`,
+	en: `Additional guidelines for Android projects:
+
+1. Architecture and design patterns:
+   - Clean architecture: Evaluate the clear separation of responsibilities between layers and adherence to dependency rules (data, domain, presentation).
+   - MVVM/MVI: Check the separation between ViewModel and View and unidirectional data flow.
+   - Dependency injection: Evaluate effective use of Hilt/Dagger and configuration that supports testing.
+   - Modularization: Check for reusable, independent feature modules.
+   - SOLID principles: Review adherence especially to the single responsibility and dependency inversion principles.
+
+2. Using Kotlin:
+   - Kotlin features: Check effective use of extension functions, higher-order functions and scope functions (let, apply, with, run).
+   - Null safety: Recommend null-safe code and minimal use of the '!!' operator.
+   - Coroutines: Check appropriate use of coroutines and Flow for asynchronous work.
+   - Functional programming: Evaluate immutability, pure functions and minimal side effects.
+   - Modern syntax: Recommend newer Kotlin 1.5+ features (e.g. inline classes, sequence builders).
+
+3. Jetpack components:
+   - Compose UI: Evaluate the reusability of composables, state management and effect handling.
+   - ViewModel: Check lifecycle-aware data management and how UI state is exposed.
+   - Navigation: Check proper handling of deep links, argument passing and transitions.
+   - Room: Review database schema design, relationship mapping and query optimization.
+   - DataStore: Recommend DataStore instead of SharedPreferences and the right type (Preferences/Proto).
+
+4. Lifecycle and memory management:
+   - Memory leaks: Identify patterns that retain Activity/Fragment references.
+   - Lifecycle awareness: Check proper reactions to lifecycle events and release of resources.
+   - Process restoration: Evaluate state preservation across configuration changes and process recreation.
+   - Background work: Review the proper use of WorkManager and foreground services and battery efficiency.
+   - Power saving: Check how Doze mode and App Standby are handled.
+
+5. UI/UX and performance:
+   - Responsive UI: Evaluate UI that responds immediately to user input and strategies for preventing ANRs.
+   - Animations: Review how frame drops are avoided for smooth animations and transitions.
+   - Layout performance: Recommend minimal layout nesting, ConstraintLayout and rendering optimizations.
+   - List performance: Check efficient RecyclerView and ListAdapter implementations using DiffUtil.
+   - Lazy loading: Evaluate lazy loading strategies for large images and resources.
+
+6. Security and data handling:
+   - Sensitive data: Check appropriate use of EncryptedSharedPreferences, the Biometric API and Keystore.
+   - Network security: Evaluate HTTPS usage, certificate pinning and the network security configuration.
+   - Input validation: Check proper validation of user input and API responses.
+   - Permissions: Evaluate the principle of least privilege and runtime permission requests.
+   - Data exposure: Review possible exposure of sensitive information through logs, the clipboard or IPC.
+
+7. Testing and maintainability:
+   - Unit tests: Evaluate the testability and test coverage of ViewModels, UseCases and Repositories.
+   - UI tests: Check Espresso and Compose UI tests.
+   - Test doubles: Review whether mocks and the dependency injection structure suit testing.
+   - Code quality: Recommend static analysis tools (ktlint, detekt) and adherence to coding conventions.
+   - Documentation: Check KDoc documentation for complex logic and public APIs.
+
+8. App size and optimization:
+   - R8/ProGuard: Check code shrinking and obfuscation rule settings.
+   - App bundles: Recommend dynamic feature modules and app bundles to reduce app size.
+   - Resource optimization: Evaluate image compression, vector drawables and appropriate resource qualifiers.
+   - On-demand features: Review install-on-demand features using dynamic delivery or Play Feature APIs.
+   - Device support: Check UI adaptations for different screen sizes, foldables and tablets.
+
+Based on these guidelines, provide an in-depth code review that reflects modern Android development best practices. For each item, propose actionable improvements with concrete code examples.
+`,
+	ja: `Androidプロジェクトに関する追加ガイドライン:
+
+1. アーキテクチャと設計パターン:
+   - クリーンアーキテクチャ: レイヤー間の明確な責務の分離と依存関係ルールの遵守を評価してください(データ、ドメイン、プレゼンテーション層)。
+   - MVVM/MVIの実装: ViewModelとViewの適切な分離と単方向データフローのパターンを確認してください。
+   - 依存性注入: Hilt/Daggerの効果的な活用とテスト容易性のための構成を評価してください。
+   - モジュール化: 再利用可能で独立した機能モジュールの実装を確認してください。
+   - SOLID原則: 特に単一責任の原則と依存性逆転の原則の遵守を確認してください。
+
+2. Kotlin言語の活用:
+   - Kotlinの特性: 拡張関数、高階関数、スコープ関数(let、apply、with、run)の効果的な活用を確認してください。
+   - null安全性: nullに安全なコードの記述と'!!'演算子の使用の最小化を推奨してください。
+   - コルーチン: 非同期処理におけるコルーチンとFlowの適切な活用を確認してください。
+   - 関数型プログラミング: 不変性、純粋関数、副作用の最小化の原則の遵守を評価してください。
+   - 最新の構文: Kotlin 1.5以降の新機能(インラインクラス、シーケンスビルダーなど)の活用を推奨してください。
+
+3. Jetpackコンポーネントの活用:
+   - Compose UI: コンポーザブル関数の再利用性、状態管理、エフェクトの処理方法を評価してください。
+   - ViewModel: ライフサイクルを認識したデータ管理とUI状態の公開方法を確認してください。
+   - Navigation: ディープリンク、引数の受け渡し、トランジション処理の適切な実装を確認してください。
+   - Room: データベーススキーマの設計、リレーションのマッピング、クエリの最適化を確認してください。
+   - DataStore: SharedPreferencesの代わりにDataStoreを使用し、適切な種類(Preferences/Proto)を選択するよう推奨してください。
+
+4. ライフサイクルとメモリ管理:
+   - メモリリーク: Activity/Fragmentの参照を保持する異常なパターンを特定してください。
+   - ライフサイクルの認識: ライフサイクルイベントへの適切な対応とリソースの解放を確認してください。
+   - プロセスの復元: 構成変更やプロセス再生成時の状態保持の仕組みを評価してください。
+   - バックグラウンド処理: WorkManagerやフォアグラウンドサービスの適切な使用とバッテリー効率を確認してください。
+   - 省電力モード: Dozeモードとアプリスタンバイへの対応方法を確認してください。
+
+5. UI/UXとパフォーマンス:
+   - レスポンシブなUI: ユーザー入力に即座に反応するUIの実装とANR防止戦略を評価してください。
+   - アニメーション: 滑らかなアニメーションと遷移のためのフレーム落ち防止方法を確認してください。
+   - レイアウトのパフォーマンス: ネストしたレイアウトの最小化、ConstraintLayoutの活用、レンダリングの最適化を推奨してください。
+   - リストのパフォーマンス: RecyclerViewとListAdapterの効率的な実装とDiffUtilの活用を確認してください。
+   - 遅延読み込み: 大きな画像やリソースの遅延読み込み戦略を評価してください。
+
+6. セキュリティとデータ処理:
+   - 機密データ: EncryptedSharedPreferences、Biometric API、Keystoreの適切な活用を確認してください。
+   - ネットワークセキュリティ: HTTPSの使用、証明書ピンニング、ネットワークセキュリティ構成の適切な設定を評価してください。
+   - 入力検証: ユーザー入力とAPIレスポンスの適切な検証を確認してください。
+   - 権限の処理: 最小権限の原則と実行時の権限リクエストの適切な実装を評価してください。
+   - データの露出: ログ、クリップボード、IPCを通じた機密情報の露出の可能性を確認してください。
+
+7. テストと保守性:
+   - 単体テスト: ViewModel、UseCase、Repositoryのテスト容易性とテスト範囲を評価してください。
+   - UIテスト: EspressoやCompose UIテストの実装を確認してください。
+   - モックオブジェクト: テストのためのモックオブジェクトと依存性注入の構造の適切さを確認してください。
+   - コード品質: 静的解析ツール(ktlint、detekt)の活用とコーディング規約の遵守を推奨してください。
+   - ドキュメント: 複雑なロジックと公開APIに対するKDocドキュメントを確認してください。
+
+8. アプリサイズと最適化:
+   - R8/ProGuard: 適切なコード縮小と難読化ルールの設定を確認してください。
+   - App Bundle: 動的機能モジュールとApp Bundleによるアプリサイズの最適化を推奨してください。
+   - リソースの最適化: 画像の圧縮、ベクタードローアブルの活用、リソース修飾子の適切な使用を評価してください。
+   - オンデマンド機能: 動的配信やPlay Feature APIを活用した必要時インストール機能の実装を確認してください。
+   - 多様なデバイスのサポート: さまざまな画面サイズ、折りたたみ端末、タブレットに対応するUI調整を確認してください。
+
+これらのガイドラインに基づき、モダンなAndroid開発のベストプラクティスを反映した深いコードレビューを提供してください。各項目について、具体的なコード例を含む実行可能な改善方法を提示してください。
+`,
+};
+
+export class AndroidPromptTemplate implements PromptTemplate {
+	private language: ReviewLanguage;
+
+	constructor(language: ReviewLanguage = "ko") {
+		this.language = language;
+	}
+
+	generatePrompt(context: ReviewContext): string {
+		// Start with the base prompt
+		const basePrompt = new BasePromptTemplate(this.language).generatePrompt(
+			context,
+		);
+
+		// Add Android-specific guidance
+		return `${basePrompt}
+
+${ANDROID_GUIDANCE[this.language]}`;
 	}
 }
@@ -1,15 +1,8 @@
-import type { PromptTemplate, ReviewContext } from "../types";
+import type { PromptTemplate, ReviewContext, ReviewLanguage } from "../types";
 import { BasePromptTemplate } from "./base";
 
-export class FastApiPromptTemplate implements PromptTemplate {
-	generatePrompt(context: ReviewContext): string {
-		// Start with the base prompt
-		const basePrompt = new BasePromptTemplate().generatePrompt(context);
-
-		// Add FastAPI-specific guidance
-		return `${basePrompt}
-
-FastAPI 프로젝트 관련 추가 지침:
+const FASTAPI_GUIDANCE: Record<ReviewLanguage, string> = {
+	ko: `FastAPI 프로젝트 관련 추가 지침:
 
 1. API 설계 및 구조:
    - 엔드포인트 구성: RESTful 원칙 준수 여부와 일관된 URL 패턴을 평가하세요.
@@ -61,6 +54,131 @@ FastAPI 프로젝트 관련 추가 지침:
    - 성능 모니터링: 프로파일링 및 성능 측정 도구의 통합을 평가하세요.
 
 이러한 지침을 바탕으로 FastAPI의 최신 기능과 모범 사례를 고려한 구체적인 코드 리뷰를 제공해주세요. 각 이슈에 대해 실제 코드 예시를 포함한 실행 가능한 개선 방안을 제시하세요.
-`;
+`,
+	en: `Additional guidelines for FastAPI projects:
+
+1. API design and structure:
+   - Endpoints: Evaluate adherence to RESTful principles and consistent URL patterns.
+   - Routers: Check that routers are split appropriately by domain/feature.
+   - Dependency injection: Review whether dependency injection with FastAPI's Depends is implemented effectively.
+   - Response models: Check for clearly defined response models and status codes.
+   - Versioning: Evaluate whether an API versioning strategy is implemented.
+
+2. Pydantic models and data validation:
+   - Schema design: Check that input/output models are clearly defined and use appropriate field types.
+   - Validation logic: Evaluate the appropriate use of custom validators and field constraints.
+   - Inheritance: Check that code reuse through model inheritance is implemented effectively.
+   - Documentation: Review whether model fields include sufficient descriptions and examples.
+   - Config: Check that the Config class options of Pydantic models are configured appropriately.
+
+3. Async patterns and performance:
+   - Async functions: Check that async/await is applied consistently.
+   - Database access: Evaluate effective use of async ORMs (SQLAlchemy, Tortoise, etc.).
+   - BackgroundTasks: Review the use of BackgroundTasks for long-running work.
+   - Caching strategy: Check whether response caching is implemented.
+   - Connection pooling: Evaluate efficient database connection management.
+
+4. Security practices:
+   - Authentication: Review the correct implementation of OAuth2, JWT or other authentication mechanisms.
+   - Authorization: Check whether role-based access control or fine-grained permissions are implemented.
+   - Input validation: Check that all user input is validated with Pydantic models.
+   - Secret management: Evaluate the handling of secrets through environment variables or secure configuration.
+   - CORS: Check that the CORS settings meet the security requirements.
+
+5. Dependency injection and testing:
+   - Dependency design: Evaluate whether the service layer and repository pattern are implemented in a testable way.
+   - Test doubles: Check the patterns used to replace external dependencies with mocks in tests.
+   - Test coverage: Evaluate the balance of unit, integration and E2E tests.
+   - Fixtures: Check the use of reusable test fixtures and factories.
+   - Async tests: Review how async endpoints are tested.
+
+6. Documentation and error handling:
+   - Swagger/OpenAPI: Evaluate the quality and completeness of the generated API documentation.
+   - Custom exceptions: Check for clear error handling with FastAPI's HTTPException.
+   - Logging strategy: Review structured logging and appropriate log levels.
+   - Status codes: Check the consistent use of standard HTTP status codes.
+   - Exception middleware: Evaluate the implementation of global exception handling middleware.
+
+7. Deployment and operations:
+   - Containerization: Check effective use of Docker or other container solutions.
+   - Environment configuration: Evaluate configuration management for development, test and production environments.
+   - Health checks: Check for health check endpoints that monitor application status.
+   - Middleware: Review the middleware configuration of the request pipeline.
+   - Performance monitoring: Evaluate the integration of profiling and performance measurement tools.
+
+Based on these guidelines, provide a specific code review that takes the latest FastAPI features and best practices into account. For each issue, propose actionable improvements with real code examples.
+`,
+	ja: `FastAPIプロジェクトに関する追加ガイドライン:
+
+1. API設計と構造:
+   - エンドポイントの構成: RESTfulの原則の遵守と一貫したURLパターンを評価してください。
+   - ルーターの構成: ドメイン/機能ごとに適切に分割されたルーター構成を確認してください。
+   - 依存性注入: FastAPIのDependsを活用した依存性注入パターンが効果的に実装されているか確認してください。
+   - レスポンスモデル: 明確に定義されたレスポンスモデルとステータスコードの使用を確認してください。
+   - バージョン管理: APIのバージョン管理戦略が実装されているか評価してください。
+
+2. Pydanticモデルとデータ検証:
+   - スキーマ設計: 入力/出力モデルが明確に定義され、適切なフィールド型を使用しているか確認してください。
+   - 検証ロジック: カスタムバリデーターとフィールド制約が適切に使われているか評価してください。
+   - 継承パターン: モデルの継承によるコードの再利用が効果的に実装されているか確認してください。
+   - ドキュメント: モデルのフィールドに十分な説明と例が含まれているか確認してください。
+   - Configの活用: PydanticモデルのConfigクラスのオプションが適切に構成されているか確認してください。
+
+3. 非同期パターンとパフォーマンス:
+   - 非同期関数: async/awaitパターンが一貫して適用されているか確認してください。
+   - データベースアクセス: 非同期ORM(SQLAlchemy、Tortoiseなど)が効果的に活用されているか評価してください。
+   - BackgroundTasks: 長時間実行される処理のためのBackgroundTasksの活用を確認してください。
+   - キャッシュ戦略: レスポンスのキャッシュの仕組みが実装されているか確認してください。
+   - コネクションプーリング: 効率的な接続管理の構成を評価してください。
+
+4. セキュリティの慣行:
+   - 認証の実装: OAuth2、JWT、その他の認証メカニズムの正しい実装を確認してください。
+   - 認可: ロールベースのアクセス制御や細分化された権限システムが実装されているか確認してください。
+   - 入力検証: すべてのユーザー入力がPydanticモデルで適切に検証されているか確認してください。
+   - シークレット管理: 環境変数や安全な設定管理による機密情報の取り扱いを評価してください。
+   - CORS設定: セキュリティ要件に合った適切なCORS設定を確認してください。
+
+5. 依存性注入とテスト:
+   - 依存関係の設計: サービスレイヤーとリポジトリパターンがテスト可能な形で実装されているか評価してください。
+   - モックの使用: テストで外部依存をモックに置き換えるパターンを確認してください。
+   - テスト範囲: 単体テスト、結合テスト、E2Eテストのバランスを評価してください。
+   - テストフィクスチャ: 再利用可能なテストフィクスチャとファクトリの活用を確認してください。
+   - 非同期テスト: 非同期エンドポイントに対する適切なテスト方法を確認してください。
+
+6. ドキュメントとエラー処理:
+   - Swagger/OpenAPI: 自動生成されたAPIドキュメントの品質と完成度を評価してください。
+   - カスタム例外: FastAPIのHTTPExceptionを活用した明確なエラー処理を確認してください。
+   - ロギング戦略: 構造化ロギングと適切なログレベルの使用を確認してください。
+   - ステータスコード: 標準HTTPステータスコードの一貫した使用を確認してください。
+   - 例外ミドルウェア: グローバルな例外処理ミドルウェアの実装を評価してください。
+
+7. デプロイと運用:
+   - コンテナ化: Dockerなどのコンテナソリューションの効果的な活用を確認してください。
+   - 環境設定: 開発、テスト、本番環境ごとの構成管理を評価してください。
+   - ヘルスチェック: アプリケーションの状態監視のためのヘルスチェックエンドポイントの実装を確認してください。
+   - ミドルウェアの使用: リクエスト処理パイプラインのミドルウェア構成を確認してください。
+   - パフォーマンス監視: プロファイリングとパフォーマンス測定ツールの統合を評価してください。
+
+これらのガイドラインに基づき、FastAPIの最新機能とベストプラクティスを考慮した具体的なコードレビューを提供してください。各問題について、実際のコード例を含む実行可能な改善方法を提示してください。
+`,
+};
+
+export class FastApiPromptTemplate implements PromptTemplate {
+	private language: ReviewLanguage;
+
+	constructor(language: ReviewLanguage = "ko") {
+		this.language = language;
+	}
+
+	generatePrompt(context: ReviewContext): string {
+		// Start with the base prompt
+		const basePrompt = new BasePromptTemplate(this.language).generatePrompt(
+			context,
+		);
+
+		// Add FastAPI-specific guidance
+		return `${basePrompt}
+
+${FASTAPI_GUIDANCE[this.language]}`;
 	}
 }
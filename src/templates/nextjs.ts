@@ -1,15 +1,8 @@
-import type { PromptTemplate, ReviewContext } from "../types";
+import type { PromptTemplate, ReviewContext, ReviewLanguage } from "../types";
 import { BasePromptTemplate } from "./base";
 
-export class NextJsPromptTemplate implements PromptTemplate {
-	generatePrompt(context: ReviewContext): string {
-		// Start with the base prompt
-		const basePrompt = new BasePromptTemplate().generatePrompt(context);
-
-		// Add Next.js-specific guidance
-		return `${basePrompt}
-
-Next.js 프로젝트 관련 추가 지침:
+const NEXTJS_GUIDANCE: Record<ReviewLanguage, string> = {
+	ko: `Next.js 프로젝트 관련 추가 지침:
 
 1. 아키텍처 및 컴포넌트 설계:
    - 컴포넌트 분리: 컴포넌트가 단일 책임 원칙을 따르고 있는지 확인하고, 과도하게 큰 컴포넌트의 분리를 제안하세요.
@@ -61,6 +54,131 @@ Next.js 프로젝트 관련 추가 지침:
    - RTL 지원: 필요한 경우 오른쪽에서 왼쪽으로 읽는 언어 지원을 확인하세요.
 
 이러한 지침을 바탕으로 Next.js의 최신 기능과 모범 사례를 고려한 구체적인 코드 리뷰를 제공해주세요. 각 이슈에 대해 실제 코드 예시를 포함한 실행 가능한 개선 방안을 제시하세요.
-`;
+`,
+	en: `Additional guidelines for Next.js projects:
+
+1. Architecture and component design:
+   - Component separation: Check that components follow the single responsibility principle and suggest splitting overly large components.
+   - Folder structure: Evaluate whether the project is well organized by feature and domain.
+   - Code reuse: Identify duplicated logic and recommend extracting it into custom hooks, utility functions or shared components.
+   - Consistent patterns: Check that component patterns (Compound, Render Props, HOC) are applied consistently.
+   - Composition: Recommend component composition over complex inheritance.
+
+2. Server and client components:
+   - Proper separation: Review the use of the "use client" directive and the boundary between server and client components.
+   - Data flow: Evaluate how data is passed from server components to client components.
+   - Tree shaking: Recommend server components to minimize the client bundle size.
+   - Interactive elements: Check that only UI elements that need interaction are client components.
+   - Streaming: Check whether streaming responses are used together with React Suspense.
+
+3. Data fetching and state management:
+   - Server vs. client state: Evaluate a clear distinction between server and client state and how each is managed.
+   - Caching strategy: Check the fetch API caching options and the use of React Query/SWR.
+   - Parallel data loading: Check that data requests are made in parallel.
+   - Global state: Evaluate whether state libraries such as Context API, Zustand, Jotai or Redux are used appropriately.
+   - Server actions: Check whether server actions are used effectively, e.g. for form submissions.
+
+4. Routing and layouts:
+   - App Router structure: Check that files such as page.tsx, layout.tsx, loading.tsx and error.tsx are used appropriately.
+   - Nested layouts: Evaluate efficient use of nested layouts for shared UI.
+   - Parallel routes: Check the use of parallel routes for split-screen layouts.
+   - Intercepting routes: Review intercepting routes for modals and deep UI experiences.
+   - Middleware: Check the proper implementation of middleware for authentication, redirects and similar concerns.
+
+5. Performance optimization:
+   - Image optimization: Check proper use and configuration of the next/image component.
+   - Bundle size: Recommend dynamic imports and code splitting for large dependencies.
+   - Memoization: Check the strategic use of React.memo, useMemo and useCallback to prevent unnecessary re-renders.
+   - Font optimization: Recommend optimizing web fonts with next/font.
+   - Performance measurement: Suggest strategies for improving Core Web Vitals.
+
+6. TypeScript and developer experience:
+   - Type safety: Recommend minimizing any and defining specific types.
+   - Type inference: Evaluate the balance between explicit type annotations and type inference.
+   - Path aliases: Recommend path aliases instead of deep relative paths.
+   - Environment variables: Check safe and type-checked use of environment variables.
+   - Code splitting and lazy loading: Recommend lazy loading components with next/dynamic.
+
+7. Accessibility and internationalization:
+   - Semantic HTML: Check the use of appropriate HTML5 semantic elements.
+   - ARIA attributes: Evaluate the correct use of ARIA roles and attributes for accessibility.
+   - Keyboard navigation: Check that every feature can be used with the keyboard alone.
+   - Internationalization: Review i18n implemented with next-intl or next-i18next.
+   - RTL support: Check support for right-to-left languages where needed.
+
+Based on these guidelines, provide a specific code review that takes the latest Next.js features and best practices into account. For each issue, propose actionable improvements with real code examples.
+`,
+	ja: `Next.jsプロジェクトに関する追加ガイドライン:
+
+1. アーキテクチャとコンポーネント設計:
+   - コンポーネントの分離: コンポーネントが単一責任の原則に従っているか確認し、大きすぎるコンポーネントの分割を提案してください。
+   - フォルダ構成: プロジェクト構成が機能別、ドメイン別に整理されているか評価してください。
+   - コードの再利用: 重複したロジックを特定し、カスタムフック、ユーティリティ関数、共通コンポーネントへの抽出を推奨してください。
+   - 一貫したパターン: コンポーネントパターン(Compound、Render Props、HOC)が一貫して適用されているか確認してください。
+   - 合成モデル: 複雑な継承の代わりにコンポーネントの合成を推奨してください。
+
+2. サーバーコンポーネントとクライアントコンポーネント:
+   - 適切な分離: "use client"ディレクティブの適切な使用とサーバー/クライアントコンポーネントの境界を確認してください。
+   - データフロー: サーバーコンポーネントからクライアントコンポーネントへのデータの受け渡しパターンを評価してください。
+   - ツリーシェイキング: クライアントバンドルサイズを最小化するためのサーバーコンポーネントの活用を推奨してください。
+   - インタラクティブな要素: 操作が必要なUI要素のみがクライアントコンポーネントとして実装されているか確認してください。
+   - ストリーミング: React Suspenseと組み合わせてストリーミングレスポンスを活用しているか確認してください。
+
+3. データフェッチと状態管理:
+   - サーバー状態とクライアント状態: サーバー/クライアント状態の明確な区別と適切な管理方法を評価してください。
+   - キャッシュ戦略: fetch APIのキャッシュオプションやReact Query/SWRの活用を確認してください。
+   - 並列データ読み込み: データリクエストが並列で行われているか確認してください。
+   - グローバル状態管理: Context API、Zustand、Jotai、Reduxなどの状態管理ライブラリの使用が適切か評価してください。
+   - サーバーアクション: フォーム送信などでサーバーアクションが効果的に活用されているか確認してください。
+
+4. ルーティングとレイアウト:
+   - App Routerの構成: page.tsx、layout.tsx、loading.tsx、error.tsxなどのファイル構成が適切に活用されているか確認してください。
+   - ネストしたレイアウト: 共通UI要素のためのネストしたレイアウトの効率的な活用を評価してください。
+   - パラレルルート: 分割された画面レイアウトのためのパラレルルートの使用を確認してください。
+   - インターセプトルート: モーダルや深いUI体験のためのインターセプトルートの活用を確認してください。
+   - ミドルウェア: 認証やリダイレクトなどのためのミドルウェアの適切な実装を確認してください。
+
+5. パフォーマンス最適化:
+   - 画像の最適化: next/imageコンポーネントの適切な活用とプロパティの設定を確認してください。
+   - バンドルサイズ: 大きな依存関係の動的インポートとコード分割を推奨してください。
+   - メモ化: 不要な再レンダリングを防ぐためのReact.memo、useMemo、useCallbackの戦略的な使用を確認してください。
+   - フォントの最適化: next/fontを使用したWebフォントの最適化を推奨してください。
+   - パフォーマンス測定: Core Web Vitalsを改善するための戦略を提案してください。
+
+6. TypeScriptと開発者体験:
+   - 型安全性: anyの使用の最小化と具体的な型定義を推奨してください。
+   - 型推論: 過剰な型宣言と型推論の活用のバランスを評価してください。
+   - パスエイリアス: 深い相対パスの代わりにパスエイリアスの使用を推奨してください。
+   - 環境変数: 環境変数の安全な使用と型チェックを確認してください。
+   - コード分割と遅延読み込み: next/dynamicを活用したコンポーネントの遅延読み込みを推奨してください。
+
+7. アクセシビリティと国際化:
+   - セマンティックHTML: 適切なHTML5セマンティック要素の使用を確認してください。
+   - ARIA属性: アクセシビリティ向上のためのARIAロールと属性の正しい使用を評価してください。
+   - キーボード操作: キーボードだけですべての機能を利用できるか確認してください。
+   - 多言語対応: next-intlやnext-i18nextを活用した国際化の実装を確認してください。
+   - RTL対応: 必要に応じて右から左に読む言語への対応を確認してください。
+
+これらのガイドラインに基づき、Next.jsの最新機能とベストプラクティスを考慮した具体的なコードレビューを提供してください。各問題について、実際のコード例を含む実行可能な改善方法を提示してください。
+`,
+};
+
+export class NextJsPromptTemplate implements PromptTemplate {
+	private language: ReviewLanguage;
+
+	constructor(language: ReviewLanguage = "ko") {
+		this.language = language;
+	}
+
+	generatePrompt(context: ReviewContext): string {
+		// Start with the base prompt
+		const basePrompt = new BasePromptTemplate(this.language).generatePrompt(
+			context,
+		);
+
+		// Add Next.js-specific guidance
+		return `${basePrompt}
+
+${NEXTJS_GUIDANCE[this.language]}`;
 	}
 }
@@ -1,15 +1,8 @@
-import type { PromptTemplate, ReviewContext } from "../types";
+import type { PromptTemplate, ReviewContext, ReviewLanguage } from "../types";
 import { BasePromptTemplate } from "./base";
 
-export class SpringBootPromptTemplate implements PromptTemplate {
-	generatePrompt(context: ReviewContext): string {
-		// Start with the base prompt
-		const basePrompt = new BasePromptTemplate().generatePrompt(context);
-
-		// Add Spring Boot-specific guidance
-		return `${basePrompt}
-
-Spring Boot 프로젝트 관련 추가 지침:
+const SPRING_BOOT_GUIDANCE: Record<ReviewLanguage, string> = {
+	ko: `Spring Boot 프로젝트 관련 추가 지침:
 
 1. 아키텍처 및 계층 구조:
    - 클린 아키텍처: 도메인 중심 설계와 계층 간 명확한 경계가 있는지 검토하세요.
@@ -54,6 +47,117 @@ Spring Boot 프로젝트 관련 추가 지침:
    - 모니터링 지원: Actuator 엔드포인트 활용 및 메트릭 노출을 권장하세요.
 
 이러한 지침을 바탕으로 Spring Boot 프로젝트의 코드 품질, 성능, 보안 및 유지보수성을 종합적으로 평가하고, 구체적인 개선 방안을 제시해주세요.
-`;
+`,
+	en: `Additional guidelines for Spring Boot projects:
+
+1. Architecture and layering:
+   - Clean architecture: Review whether there is a domain-centric design with clear boundaries between layers.
+   - Layer separation: Check that the Controller, Service and Repository layers are clearly separated and identify unnecessary dependencies.
+   - Business logic placement: Check that business logic lives in the domain model or the service layer.
+   - DTO usage: Check that entities and DTOs are clearly distinguished and entities are not exposed to the presentation layer.
+   - Modularity: Check that features are well modularized and evaluate the package structure.
+
+2. Using the Spring framework:
+   - DI: Check that constructor injection is used and discourage @Autowired field injection.
+   - Transaction management: Check the scope and propagation settings of @Transactional.
+   - Bean lifecycle: Check the correct use of bean lifecycle callback methods.
+   - Profiles: Check the use of @Profile for environment-specific configuration.
+   - Conditional configuration: Recommend flexible auto-configuration with @ConditionalOn* annotations.
+
+3. Data access and performance:
+   - Preventing N+1 queries: Recommend fetch joins, EntityGraph or BatchSize when loading associated entities.
+   - Query optimization: Evaluate the appropriate use of JPQL, Querydsl or native queries.
+   - Pagination: Check that pagination is applied when handling large data sets.
+   - Caching strategy: Check for appropriate caching with @Cacheable.
+   - Asynchronous processing: Identify opportunities for asynchronous processing with @Async and CompletableFuture.
+
+4. Security and exception handling:
+   - Authentication/authorization: Check the Spring Security configuration and adherence to security best practices.
+   - Input validation: Check input validation with @Valid and @Validated.
+   - Exception hierarchy: Recommend a domain-specific custom exception hierarchy.
+   - Global exception handling: Check for consistent exception handling with @ControllerAdvice.
+   - Vulnerabilities: Check protections against SQL injection, XSS and CSRF.
+
+5. API design and documentation:
+   - RESTful principles: Evaluate the use of HTTP methods, status codes and resource naming conventions.
+   - API versioning: Check whether an API versioning strategy is applied.
+   - Swagger/OpenAPI: Check and recommend the use of API documentation tools.
+   - HATEOAS: Recommend HATEOAS principles where needed.
+   - Response format: Check for a consistent response format and appropriate HTTP status codes.
+
+6. Testing and maintainability:
+   - Unit tests: Recommend unit tests for service and domain logic.
+   - Integration tests: Check integration tests using @SpringBootTest.
+   - Testability: Evaluate whether the code is designed to be easy to test (dependency injection, ease of mocking).
+   - Logging strategy: Check for appropriate log levels and contextual information.
+   - Monitoring: Recommend Actuator endpoints and metrics exposure.
+
+Based on these guidelines, comprehensively evaluate the code quality, performance, security and maintainability of the Spring Boot project and propose specific improvements.
+`,
+	ja: `Spring Bootプロジェクトに関する追加ガイドライン:
+
+1. アーキテクチャとレイヤー構造:
+   - クリーンアーキテクチャ: ドメイン中心の設計とレイヤー間の明確な境界があるか確認してください。
+   - レイヤーの分離: Controller、Service、Repositoryの各レイヤーが明確に分離されているか確認し、不要な依存関係を特定してください。
+   - ビジネスロジックの配置: ビジネスロジックがドメインモデルやサービスレイヤーに適切に配置されているか確認してください。
+   - DTOの活用: EntityとDTOの区別が明確で、Entityがプレゼンテーション層まで露出していないか確認してください。
+   - モジュール化: 機能ごとのモジュール化ができているか確認し、パッケージ構造を評価してください。
+
+2. Springフレームワークの活用:
+   - DIの最適化: コンストラクタインジェクションを使用しているか確認し、@Autowiredによるフィールドインジェクションは避けてください。
+   - トランザクション管理: @Transactionalアノテーションの適切な範囲と伝播設定を確認してください。
+   - Beanのライフサイクル: Beanライフサイクルのコールバックメソッドが正しく使われているか確認してください。
+   - プロファイルの活用: 環境別の構成に@Profileが使われているか確認してください。
+   - 条件付き構成: @ConditionalOn*アノテーションによる柔軟な自動構成を推奨してください。
+
+3. データアクセスとパフォーマンス:
+   - N+1クエリの防止: 関連エンティティの読み込みにfetch join、EntityGraph、BatchSizeの活用を推奨してください。
+   - クエリの最適化: JPQL、Querydsl、ネイティブクエリの適切な使用を評価してください。
+   - ページネーション: 大量データの処理にページネーションが適用されているか確認してください。
+   - キャッシュ戦略: @Cacheableを活用した適切なキャッシュ実装を確認してください。
+   - 非同期処理: @AsyncやCompletableFutureを活用した非同期処理の機会を特定してください。
+
+4. セキュリティと例外処理:
+   - 認証/認可: Spring Securityの構成の適切さとセキュリティのベストプラクティスの遵守を確認してください。
+   - 入力検証: @Valid、@Validatedを活用した入力値の検証を確認してください。
+   - 例外階層: ドメインごとのカスタム例外階層を推奨してください。
+   - グローバル例外処理: @ControllerAdviceを活用した一貫した例外処理を確認してください。
+   - セキュリティ脆弱性: SQLインジェクション、XSS、CSRFへの対策を確認してください。
+
+5. API設計とドキュメント:
+   - RESTfulの原則: HTTPメソッド、ステータスコード、リソースの命名規則の適切な使用を評価してください。
+   - APIバージョン管理: APIのバージョン管理戦略が適用されているか確認してください。
+   - Swagger/OpenAPI: APIドキュメントツールの活用を確認し、推奨してください。
+   - HATEOAS: 必要に応じてHATEOASの原則の適用を推奨してください。
+   - レスポンス形式: 一貫したレスポンス形式と適切なHTTPステータスコードの使用を確認してください。
+
+6. テストと保守性:
+   - 単体テスト: サービスやドメインロジックに対する単体テストの作成を推奨してください。
+   - 結合テスト: @SpringBootTestを活用した結合テストの実装を確認してください。
+   - テスト容易性: コードがテストしやすく設計されているか評価してください(依存性注入、モックの容易さ)。
+   - ロギング戦略: 適切なログレベルとコンテキスト情報の提供を確認してください。
+   - モニタリング: Actuatorエンドポイントの活用とメトリクスの公開を推奨してください。
+
+これらのガイドラインに基づき、Spring Bootプロジェクトのコード品質、パフォーマンス、セキュリティ、保守性を総合的に評価し、具体的な改善方法を提示してください。
+`,
+};
+
+export class SpringBootPromptTemplate implements PromptTemplate {
+	private language: ReviewLanguage;
+
+	constructor(language: ReviewLanguage = "ko") {
+		this.language = language;
+	}
+
+	generatePrompt(context: ReviewContext): string {
+		// Start with the base prompt
+		const basePrompt = new BasePromptTemplate(this.language).generatePrompt(
+			context,
+		);
+
+		// Add Spring Boot-specific guidance
+		return `${basePrompt}
+
+${SPRING_BOOT_GUIDANCE[this.language]}`;
 	}
 }
@@ -1,15 +1,8 @@
-import type { PromptTemplate, ReviewContext } from "../types";
+import type { PromptTemplate, ReviewContext, ReviewLanguage } from "../types";
 import { BasePromptTemplate } from "./base";
 
-export class UnityPromptTemplate implements PromptTemplate {
-	generatePrompt(context: ReviewContext): string {
-		// Start with the base prompt
-		const basePrompt = new BasePromptTemplate().generatePrompt(context);
-
-		// Add Unity-specific guidance
-		return `${basePrompt}
-
-Unity 프로젝트 관련 추가 지침:
+const UNITY_GUIDANCE: Record<ReviewLanguage, string> = {
+	ko: `Unity 프로젝트 관련 추가 지침:
 
 1. 성능 최적화:
    - 프레임 레이트 영향: Update()와 FixedUpdate() 메서드 내 무거운 연산을 찾아 최적화 방안을 제시하세요.
@@ -46,6 +39,101 @@ Unity 프로젝트 관련 추가 지침:
    - 에디터 속성: [Header], [Tooltip] 등의 Inspector 속성을 통한 가독성 향상을 제안하세요.
 
 프로젝트의 규모와 목적에 맞게 이러한 지침을 적용하여, Unity 게임 개발 모범 사례를 반영한 구체적이고 실행 가능한 코드 리뷰를 제공해주세요.
-`;
+`,
+	en: `Additional guidelines for Unity projects:
+
+1. Performance optimization:
+   - Frame rate impact: Find heavy computation inside Update() and FixedUpdate() and suggest optimizations.
+   - Memory management: Find unnecessary GameObject creation/destruction patterns and recommend object pooling.
+   - Component caching: Check whether GetComponent() is called in loops or Update() and suggest caching patterns.
+   - Physics: Recommend optimizing Physics calls and using layer masks.
+   - Batching: Suggest batched rendering techniques such as DrawMeshInstanced where possible.
+
+2. Architecture and design patterns:
+   - Component-based design: Recommend small, focused components that follow the single responsibility principle.
+   - Dependency injection: Recommend ScriptableObject-based service locators or DI patterns instead of MonoBehaviour singletons.
+   - Event system: Suggest loose coupling between components with UnityEvent or C# events.
+   - State management: Recommend the state pattern or state machines for managing complex game logic.
+   - Modularity: Evaluate modular data design using ScriptableObjects.
+
+3. Code quality and safety:
+   - Null reference prevention: Recommend [SerializeField], the RequireComponent attribute or null checks.
+   - Naming conventions: Recommend consistent naming that follows the Unity style guide.
+   - Coroutine management: Verify that coroutines are started/stopped properly and their references are managed.
+   - Event handling: Check that event subscriptions and unsubscriptions are properly paired.
+   - Exception handling: Recommend proper use of try-catch blocks and robust error handling.
+
+4. Modern Unity development practices:
+   - New Input System: Recommend the new Input System instead of the legacy Input class.
+   - Async patterns: Suggest replacing coroutines with async/await and UniTask.
+   - DOTS applicability: Consider the Entity Component System (ECS) for large-scale performance requirements.
+   - Universal Render Pipeline: Consider adopting URP when it suits the project.
+   - Asset management: Suggest efficient asset loading with the Addressables system.
+
+5. Editor and developer experience:
+   - Custom editors: Recommend custom editor tools that reduce repetitive work.
+   - Debugging tools: Suggest in-game debugging tools and a developer console.
+   - Visual feedback: Recommend visual debugging with Gizmos and Debug.DrawLine.
+   - Editor attributes: Suggest Inspector attributes such as [Header] and [Tooltip] to improve readability.
+
+Apply these guidelines according to the size and purpose of the project, and provide a specific, actionable code review that reflects Unity game development best practices.
+`,
+	ja: `Unityプロジェクトに関する追加ガイドライン:
+
+1. パフォーマンス最適化:
+   - フレームレートへの影響: Update()やFixedUpdate()内の重い処理を見つけ、最適化方法を提示してください。
+   - メモリ管理: 不要なGameObjectの生成/破棄パターンを見つけ、オブジェクトプーリングの実装を推奨してください。
+   - コンポーネントのキャッシュ: GetComponent()の呼び出しがループやUpdate()内にないか確認し、キャッシュパターンを提案してください。
+   - 物理演算: Physics関連の呼び出しの最適化とレイヤーマスクの活用を推奨してください。
+   - バッチ処理: 可能な場合はDrawMeshInstancedなどのバッチレンダリング手法を提案してください。
+
+2. アーキテクチャと設計パターン:
+   - コンポーネントベース設計: 単一責任の原則に従う小さく焦点を絞ったコンポーネント構成を推奨してください。
+   - 依存性注入: MonoBehaviourシングルトンの代わりにScriptableObjectベースのサービスロケーターやDIパターンを推奨してください。
+   - イベントシステム: UnityEventやC#イベントを活用したコンポーネント間の疎結合を提案してください。
+   - 状態管理: ステートパターンやステートマシンによる複雑なゲームロジックの管理を推奨してください。
+   - モジュール性: ScriptableObjectを活用したモジュール式のデータ設計を評価してください。
+
+3. コード品質と安全性:
+   - null参照の防止: [SerializeField]、RequireComponent属性の使用、またはnullチェックを推奨してください。
+   - 命名規則: Unityスタイルガイドに沿った一貫した命名パターンを推奨してください。
+   - コルーチン管理: コルーチンの適切な開始/停止と参照の管理を検証してください。
+   - イベント処理: イベントの購読/解除が適切に対になっているか確認してください。
+   - 例外処理: try-catchブロックの適切な使用と堅牢なエラー処理を推奨してください。
+
+4. モダンなUnity開発の慣行:
+   - 新しいInput System: レガシーなInputの代わりに新しいInput Systemの使用を推奨してください。
+   - 非同期パターン: async/awaitとUniTaskによるコルーチンの置き換えを提案してください。
+   - DOTSの適用可能性: 大規模なパフォーマンス要件がある場合はEntity Component System(ECS)の導入を検討してください。
+   - Universal Render Pipeline: プロジェクトに適している場合はURPの導入を検討してください。
+   - アセット管理: Addressablesシステムを活用した効率的なアセット読み込みを提案してください。
+
+5. エディタと開発者体験:
+   - カスタムエディタ: 繰り返し作業を減らすカスタムエディタツールの開発を推奨してください。
+   - デバッグツール: ゲーム内デバッグツールと開発者コンソールの実装を提案してください。
+   - 視覚的フィードバック: GizmosとDebug.DrawLineを活用した視覚的デバッグを推奨してください。
+   - エディタ属性: [Header]や[Tooltip]などのInspector属性による可読性の向上を提案してください。
+
+プロジェクトの規模と目的に合わせてこれらのガイドラインを適用し、Unityゲーム開発のベストプラクティスを反映した具体的で実行可能なコードレビューを提供してください。
+`,
+};
+
+export class UnityPromptTemplate implements PromptTemplate {
+	private language: ReviewLanguage;
+
+	constructor(language: ReviewLanguage = "ko") {
+		this.language = language;
+	}
+
+	generatePrompt(context: ReviewContext): string {
+		// Start with the base prompt
+		const basePrompt = new BasePromptTemplate(this.language).generatePrompt(
+			context,
+		);
+
+		// Add Unity-specific guidance
+		return `${basePrompt}
+
+${UNITY_GUIDANCE[this.language]}`;
 	}
 }
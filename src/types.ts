@@ -6,29 +6,227 @@ export type ProjectType =
 	| "fastapi"
 	| "auto";
 
+export type ReviewLanguage = "ko" | "en" | "ja";
+
+export type DetectableProjectType = Exclude<ProjectType, "auto">;
+
+export interface ProjectDetectionResult {
+	projectType: ProjectType;
+	// Share of the total score held by the winning type, from 0 to 1
+	confidence: number;
+	scores: Record<DetectableProjectType, number>;
+	evidence: {
+		projectType: DetectableProjectType;
+		signal: string;
+		score: number;
+	}[];
+}
+
 export interface FileChange {
 	filename: string;
 	status: "added" | "modified" | "removed" | "renamed";
 	patch?: string;
 	fullContent?: string;
 	previousContent?: string;
+	additions?: number;
+	deletions?: number;
+}
+
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+// Side of a diff a review comment is attached to: LEFT is the old file, RIGHT the new one
+export type CommentSide = "LEFT" | "RIGHT";
+
+/**
+ * Line of a unified diff hunk with its line numbers in the old and new file
+ */
+export interface DiffLine {
+	type: "added" | "removed" | "context";
+	content: string;
+	oldLine?: number;
+	newLine?: number;
+}
+
+export interface DiffHunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	// The hunk as it appears in the patch, header included
+	text: string;
+	lines: DiffLine[];
+}
+
+export type SkipReason = "generated" | "lockfile" | "low-priority";
+
+/**
+ * Changed file left out of the review when a pull request has more files than can be reviewed
+ */
+export interface SkippedFile {
+	filename: string;
+	reason: SkipReason;
+	// Risk score of files that ranked below the cut-off
+	score?: number;
+}
+
+/**
+ * Label added to pull requests that change a file matching one of the path globs
+ */
+export interface AreaLabel {
+	label: string;
+	paths: string[];
+}
+
+export type RiskLevel = "high" | "medium" | "low";
+
+export type TriggerSkipReason =
+	| "draft"
+	| "label"
+	| "author"
+	| "bot"
+	| "base-branch"
+	| "head-branch"
+	| "size";
+
+/**
+ * Why the trigger policy skipped a pull request, with the label, author, branch or line count involved
+ */
+export interface TriggerSkip {
+	reason: TriggerSkipReason;
+	detail: string;
+}
+
+/**
+ * The parts of a pull request event the trigger policy is evaluated on
+ */
+export interface PullRequestTrigger {
+	number: number;
+	action?: string;
+	draft: boolean;
+	labels: string[];
+	author: string;
+	isBot: boolean;
+	baseRef: string;
+	headRef: string;
+	changedLines: number;
 }
 
 export interface RelatedFiles {
 	[changedFile: string]: string[];
 }
 
+export type CommentPriorityFilter = "all" | "medium" | "high" | "critical";
+
+export type CommentPriority = "critical" | "high" | "medium" | "low";
+
+/**
+ * Event of the line comment review: always a comment, requesting changes on critical or high
+ * findings, or additionally approving when nothing above low priority was found
+ */
+export type ReviewEventPolicy = "comment" | "request-changes" | "approve";
+
+export type ReviewEvent = "COMMENT" | "REQUEST_CHANGES" | "APPROVE";
+
+/**
+ * Settings that apply only to files matching one of the given path globs
+ */
+export interface PathOverride {
+	paths: string[];
+	fileExtensions?: string[];
+	excludePatterns?: string[];
+	commentPriority?: CommentPriorityFilter;
+}
+
+/**
+ * A project inside a monorepo, selected by path globs
+ */
+export interface ProjectConfig {
+	name?: string;
+	paths: string[];
+	projectType: ProjectType;
+}
+
+/**
+ * Changed files that belong to the same project root and share a prompt template
+ */
+export interface ProjectPartition {
+	name: string;
+	root: string;
+	projectType: ProjectType;
+	files: FileChange[];
+}
+
+/**
+ * How the summary comment is posted: edited in place across runs, or a new comment per run
+ */
+export type SummaryCommentMode = "update" | "append";
+
+/**
+ * How open Loxops review threads are checked for fixes: not at all, by whether the flagged code
+ * changed, or by also asking Claude whether the change addresses the finding
+ */
+export type ThreadResolutionMode = "off" | "code" | "claude";
+
+/**
+ * Where findings are published: review comments on the pull request, a check run, or both
+ */
+export type OutputMode = "comments" | "check-run" | "both";
+
+/**
+ * Where the generated walkthrough of the changes goes: the pull request description, the summary
+ * comment, or nowhere
+ */
+export type WalkthroughMode = "off" | "description" | "summary";
+
 export interface ReviewOptions {
 	projectType: ProjectType;
 	fileExtensions: string[];
 	excludePatterns: string[];
 	findRelatedFiles: boolean;
+	// Largest number of files reviewed in a pull request, 0 for no limit
 	maxFiles: number;
 	model: string;
 	useRepomix: boolean;
 	commentStdout?: boolean;
 	maxComments?: number;
-	commentPriority?: "all" | "medium" | "high" | "critical";
+	commentPriority?: CommentPriorityFilter;
+	overrides?: PathOverride[];
+	monorepo?: boolean;
+	projects?: ProjectConfig[];
+	reviewLanguage?: ReviewLanguage;
+	maxOutputTokens?: number;
+	maxBatches?: number;
+	// Estimated spending limit in USD for all Claude requests of a run
+	maxCost?: number;
+	summaryCommentMode?: SummaryCommentMode;
+	resolveThreads?: ThreadResolutionMode;
+	// Fails the action when a comment has at least this priority
+	failOnPriority?: CommentPriority | "none";
+	reviewEventPolicy?: ReviewEventPolicy;
+	outputMode?: OutputMode;
+	// Most replies Loxops posts in one review thread when its author answers a finding
+	maxThreadReplies?: number;
+	// Trigger policy deciding which pull request events are reviewed
+	skipDrafts?: boolean;
+	skipLabels?: string[];
+	// Labels that force a review regardless of the other trigger rules
+	forceLabels?: string[];
+	skipAuthors?: string[];
+	skipBots?: boolean;
+	// Branch globs; an empty base branch list allows every base branch
+	baseBranches?: string[];
+	skipHeadBranches?: string[];
+	maxChangedLines?: number;
+	postSkipNotice?: boolean;
+	// Labels the pull request by affected area and risk level
+	autoLabel?: boolean;
+	areaLabels?: AreaLabel[];
+	// Path globs whose changes raise the risk level, such as authentication code or migrations
+	sensitivePaths?: string[];
+	walkthrough?: WalkthroughMode;
 }
 
 export interface UserComment {
@@ -51,6 +249,24 @@ export interface ReviewContext {
 	files: FileChange[];
 	relatedFiles: RelatedFiles;
 	userComments?: UserComment[];
+	batch?: ReviewBatch;
+	skippedFiles?: SkippedFile[];
+	// Head commit the review covers, recorded so the next run can review only newer commits
+	headSha?: string;
+	// Set when only part of the changes is reviewed, after new commits or for selected paths
+	partial?: boolean;
+	// Last reviewed commit the patches compare against when only newer commits are reviewed
+	comparedSha?: string;
+}
+
+/**
+ * Position of a review request within a pull request split across several Claude calls
+ */
+export interface ReviewBatch {
+	index: number;
+	total: number;
+	// Changed files reviewed in the other batches
+	otherFiles: string[];
 }
 
 export interface PromptTemplate {
@@ -61,10 +277,113 @@ export interface ReviewComment {
 	path: string;
 	line: number;
 	body: string;
-	priority?: "critical" | "high" | "medium" | "low";
+	priority?: CommentPriority;
+	side?: CommentSide;
+	// Set when the comment covers a range of lines, both ends on the same side as `line`
+	startLine?: number;
+	endLine?: number;
+	// Replacement for the commented lines, offered as a committable suggestion
+	suggestion?: string;
+}
+
+/**
+ * An unresolved review thread started by a Loxops line comment
+ */
+export interface ReviewThread {
+	id: string;
+	path: string;
+	// Line in the head version of the file, missing once the thread is outdated
+	line?: number;
+	originalLine?: number;
+	// First comment of the thread
+	commentId: number;
+	body: string;
+	// Diff hunk of the first comment, ending at the commented line
+	diffHunk: string;
+	// Priority of the finding, low for comments posted before it was recorded
+	priority: CommentPriority;
+}
+
+/**
+ * Overview of a pull request written by Claude, rendered with a table of the changed files
+ */
+export interface Walkthrough {
+	overview: string;
+	// One-line summary of each changed file, keyed by path
+	files: Record<string, string>;
+	testing: string;
+}
+
+/**
+ * A comment of a review thread, oldest first
+ */
+export interface ThreadMessage {
+	author: string;
+	body: string;
+	// Posted by Loxops, either the finding itself or an earlier reply
+	fromLoxops: boolean;
+}
+
+/**
+ * A review thread started by a Loxops line comment that has just been replied to
+ */
+export interface ReviewConversation {
+	pullRequestNumber: number;
+	headSha: string;
+	// First comment of the thread, the finding replies are posted under
+	rootCommentId: number;
+	path: string;
+	line?: number;
+	diffHunk: string;
+	messages: ThreadMessage[];
+}
+
+/**
+ * A `/loxops` command posted in a pull request comment
+ */
+export type LoxopsCommand =
+	| { name: "review"; paths: string[] }
+	| { name: "explain"; path: string; line: number }
+	| { name: "ignore"; fingerprint: string }
+	| { name: "summary" }
+	| { name: "help" };
+
+/**
+ * The pull request comment that triggered an issue_comment event
+ */
+export interface CommandComment {
+	id: number;
+	body: string;
+	author: string;
+	pullRequestNumber: number;
 }
 
 export interface StructuredReview {
 	summary: string;
 	comments: ReviewComment[];
 }
+
+/**
+ * Generates and publishes reviews for the `review` and `summary` commands
+ */
+export interface ReviewRunner {
+	// Reviews the pull request, limited to the changed files matching the globs if any
+	generateReview(
+		paths?: string[],
+	): Promise<{ context: ReviewContext; review: StructuredReview }>;
+	publishReview(
+		context: ReviewContext,
+		review: StructuredReview,
+		reviewedSha?: string,
+	): Promise<void>;
+}
+
+/**
+ * Text response from Claude, stitched together from continuation requests when it hit the output token limit
+ */
+export interface ClaudeTextResponse {
+	text: string;
+	continuations: number;
+	// False when the response was still cut off after the last continuation
+	complete: boolean;
+}
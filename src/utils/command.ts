@@ -0,0 +1,43 @@
+import type { LoxopsCommand } from "../types";
+
+// A command is a comment line starting with /loxops
+const COMMAND_LINE = /^\s*\/loxops\b(.*)$/m;
+const FILE_LINE = /^(.+):(\d+)$/;
+// Fingerprints are 16 hex digits, a shorter prefix works like an abbreviated commit hash
+const FINGERPRINT = /^[0-9a-f]{7,16}$/i;
+
+/**
+ * Parses the first `/loxops` line of a comment. Returns undefined for comments without a command
+ * and the help command for unknown commands or missing arguments.
+ */
+export function parseCommand(body: string): LoxopsCommand | undefined {
+	const match = body.match(COMMAND_LINE);
+	if (!match) {
+		return undefined;
+	}
+
+	const [name, ...args] = match[1].trim().split(/\s+/).filter(Boolean);
+
+	switch (name) {
+		case "review":
+			return { name: "review", paths: args };
+		case "summary":
+			return { name: "summary" };
+		case "explain": {
+			const location = args[0]?.match(FILE_LINE);
+			const line = location ? Number.parseInt(location[2], 10) : 0;
+			return location && line > 0
+				? { name: "explain", path: location[1], line }
+				: { name: "help" };
+		}
+		case "ignore": {
+			// Accepts the fingerprint as shown under a line comment, `loxops:` prefix included
+			const fingerprint = args[0]?.replace(/^loxops:/i, "");
+			return fingerprint && FINGERPRINT.test(fingerprint)
+				? { name: "ignore", fingerprint: fingerprint.toLowerCase() }
+				: { name: "help" };
+		}
+		default:
+			return { name: "help" };
+	}
+}
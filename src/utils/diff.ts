@@ -0,0 +1,148 @@
+import type { CommentSide, DiffHunk, DiffLine, LineRange } from "../types";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses a unified diff patch, as returned by the GitHub API, into hunks with typed lines
+ */
+export function parsePatch(patch: string): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	let current: DiffHunk | null = null;
+	let oldLine = 0;
+	let newLine = 0;
+
+	for (const raw of patch.split("\n")) {
+		const header = raw.match(HUNK_HEADER);
+		if (header) {
+			oldLine = Number.parseInt(header[1], 10);
+			newLine = Number.parseInt(header[3], 10);
+			current = {
+				oldStart: oldLine,
+				oldLines: header[2] !== undefined ? Number.parseInt(header[2], 10) : 1,
+				newStart: newLine,
+				newLines: header[4] !== undefined ? Number.parseInt(header[4], 10) : 1,
+				text: raw,
+				lines: [],
+			};
+			hunks.push(current);
+			continue;
+		}
+
+		if (!current) {
+			continue;
+		}
+		current.text += `\n${raw}`;
+
+		let line: DiffLine | null = null;
+		switch (raw[0]) {
+			case "+":
+				line = { type: "added", content: raw.slice(1), newLine: newLine++ };
+				break;
+			case "-":
+				line = { type: "removed", content: raw.slice(1), oldLine: oldLine++ };
+				break;
+			case " ":
+				line = {
+					type: "context",
+					content: raw.slice(1),
+					oldLine: oldLine++,
+					newLine: newLine++,
+				};
+				break;
+			// "\ No newline at end of file" and anything else carries no line numbers
+		}
+
+		if (line) {
+			current.lines.push(line);
+		}
+	}
+
+	return hunks;
+}
+
+/**
+ * Returns the line ranges each hunk covers in the new version of the file
+ */
+export function getHunkRanges(patch: string): LineRange[] {
+	return parsePatch(patch).map((hunk) => ({
+		start: hunk.newStart,
+		end: hunk.newStart + hunk.newLines - 1,
+	}));
+}
+
+/**
+ * Finds the diff line a comment on `line` of the given side refers to.
+ * RIGHT comments can target added and context lines, LEFT comments removed and context lines.
+ */
+export function findDiffLine(
+	hunks: DiffHunk[],
+	line: number,
+	side: CommentSide = "RIGHT",
+): { hunk: DiffHunk; line: DiffLine } | undefined {
+	for (const hunk of hunks) {
+		const match = hunk.lines.find((diffLine) =>
+			side === "LEFT" ? diffLine.oldLine === line : diffLine.newLine === line,
+		);
+		if (match) {
+			return { hunk, line: match };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Finds the hunk containing every line from `start` to `end` on the given side.
+ * GitHub only accepts multi-line comments whose range lies within one hunk.
+ */
+export function findDiffRange(
+	hunks: DiffHunk[],
+	start: number,
+	end: number,
+	side: CommentSide = "RIGHT",
+): DiffHunk | undefined {
+	const first = findDiffLine(hunks, start, side);
+	const last = findDiffLine(hunks, end, side);
+
+	if (!first || !last || first.hunk !== last.hunk || start >= end) {
+		return undefined;
+	}
+	return first.hunk;
+}
+
+/**
+ * Prefixes every diff line with its old and new line numbers so the model can cite exact lines.
+ * Lines outside hunks, such as truncation markers, are kept unchanged.
+ */
+export function annotatePatch(patch: string): string {
+	const hunks = parsePatch(patch);
+	const diffLines = hunks.flatMap((hunk) => hunk.lines);
+	const width = String(
+		Math.max(
+			0,
+			...hunks.map((hunk) =>
+				Math.max(hunk.oldStart + hunk.oldLines, hunk.newStart + hunk.newLines),
+			),
+		),
+	).length;
+	const column = (value?: number) =>
+		(value === undefined ? "" : String(value)).padStart(width);
+
+	// Walks the patch the same way parsePatch does, so diff lines are consumed in order
+	let index = 0;
+	let inHunk = false;
+
+	return patch
+		.split("\n")
+		.map((raw) => {
+			if (HUNK_HEADER.test(raw)) {
+				inHunk = true;
+				return raw;
+			}
+			if (inHunk && ["+", "-", " "].includes(raw[0])) {
+				const line = diffLines[index++];
+				return `${column(line.oldLine)} ${column(line.newLine)} ${raw}`;
+			}
+			return raw;
+		})
+		.join("\n");
+}
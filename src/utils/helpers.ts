@@ -33,8 +33,11 @@ export function truncate(str: string, maxLength: number): string {
  * Estimates token count in a string (very rough approximation)
  */
 export function estimateTokenCount(text: string): number {
-	// Rough approximation: 1 token ~= 4 characters for English text
-	return Math.ceil(text.length / 4);
+	// Rough approximation: 1 token ~= 4 characters for English text,
+	// while Korean, Japanese and other non-ASCII characters take about a token each
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: Matches every non-ASCII character
+	const nonAscii = text.match(/[^\x00-\x7F]/g)?.length ?? 0;
+	return Math.ceil((text.length - nonAscii) / 4) + nonAscii;
 }
 
 /**
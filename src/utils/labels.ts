@@ -0,0 +1,143 @@
+import ignore from "ignore";
+import type {
+	ReviewComment,
+	ReviewContext,
+	ReviewOptions,
+	RiskLevel,
+} from "../types";
+import { getHighestPriority } from "./severity";
+
+// Ordered from highest to lowest risk
+const RISK_LEVELS: RiskLevel[] = ["high", "medium", "low"];
+const RISK_LABEL_PREFIX = "risk/";
+const RISK_LABEL_COLORS: Record<RiskLevel, string> = {
+	high: "d73a4a",
+	medium: "fbca04",
+	low: "0e8a16",
+};
+const AREA_LABEL_COLOR = "1d76db";
+
+// Changes with more added and deleted lines than this are at least medium risk
+const LARGE_CHANGE_LINES = 500;
+
+function getRiskLabel(level: RiskLevel): string {
+	return `${RISK_LABEL_PREFIX}${level}`;
+}
+
+function getLabelRisk(label: string): RiskLevel | undefined {
+	return RISK_LEVELS.find((level) => getRiskLabel(level) === label);
+}
+
+/**
+ * Rates the risk of a change: high for critical findings or high findings in sensitive paths,
+ * medium for high findings, sensitive paths or large changes, low otherwise
+ */
+export function getRiskLevel(
+	comments: ReviewComment[],
+	changedLines: number,
+	touchesSensitivePaths: boolean,
+): RiskLevel {
+	const highest = getHighestPriority(comments);
+
+	if (highest === "critical" || (highest === "high" && touchesSensitivePaths)) {
+		return "high";
+	}
+	if (
+		highest === "high" ||
+		touchesSensitivePaths ||
+		changedLines > LARGE_CHANGE_LINES
+	) {
+		return "medium";
+	}
+	return "low";
+}
+
+/**
+ * Derives the area labels of the changed files and the risk label of the review
+ */
+export function deriveLabels(
+	context: ReviewContext,
+	review: { comments: ReviewComment[] },
+	options: ReviewOptions,
+): string[] {
+	const filenames = [
+		...context.files.map((file) => file.filename),
+		...(context.skippedFiles ?? []).map((file) => file.filename),
+	];
+	const matchesAny = (paths: string[]) => {
+		const filter = ignore().add(paths);
+		return filenames.some((filename) => filter.ignores(filename));
+	};
+
+	const areaLabels = (options.areaLabels ?? [])
+		.filter((area) => matchesAny(area.paths))
+		.map((area) => area.label);
+	const changedLines = context.files.reduce(
+		(total, file) => total + (file.additions ?? 0) + (file.deletions ?? 0),
+		0,
+	);
+	const risk = getRiskLevel(
+		review.comments,
+		changedLines,
+		matchesAny(options.sensitivePaths ?? []),
+	);
+
+	return [...new Set([...areaLabels, getRiskLabel(risk)])];
+}
+
+/**
+ * Returns every label Loxops may add. Only those it actually added are removed again.
+ */
+export function getManagedLabels(options: ReviewOptions): string[] {
+	return [
+		...(options.areaLabels ?? []).map((area) => area.label),
+		...RISK_LEVELS.map(getRiskLabel),
+	];
+}
+
+/**
+ * Compares the labels of the pull request with the derived ones. Managed labels, the ones Loxops
+ * added, that no longer apply are removed. After a partial review, labels of earlier reviews are
+ * kept and the risk label is only raised, since the unreviewed changes may still carry that risk.
+ */
+export function getLabelChanges(
+	current: string[],
+	desired: string[],
+	managed: string[],
+	partial: boolean,
+): { add: string[]; remove: string[] } {
+	let wanted = desired;
+
+	if (partial) {
+		const risks = [...current, ...desired]
+			.map(getLabelRisk)
+			.filter((risk): risk is RiskLevel => risk !== undefined);
+		const highest = RISK_LEVELS.find((level) => risks.includes(level));
+		const kept = current.filter(
+			(label) => managed.includes(label) && !getLabelRisk(label),
+		);
+
+		wanted = [
+			...new Set([
+				...kept,
+				...desired.filter((label) => !getLabelRisk(label)),
+				...(highest ? [getRiskLabel(highest)] : []),
+			]),
+		];
+	}
+
+	return {
+		add: wanted.filter((label) => !current.includes(label)),
+		remove: current.filter(
+			(label) => managed.includes(label) && !wanted.includes(label),
+		),
+	};
+}
+
+/**
+ * Color of a label Loxops creates in the repository
+ */
+export function getLabelColor(label: string): string {
+	const risk = getLabelRisk(label);
+	return risk ? RISK_LABEL_COLORS[risk] : AREA_LABEL_COLOR;
+}
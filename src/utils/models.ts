@@ -0,0 +1,177 @@
+interface ModelInfo {
+	contextWindow: number;
+	maxOutputTokens: number;
+	// Prices in USD per million tokens
+	inputPrice: number;
+	outputPrice: number;
+}
+
+// Model families that predate the Messages API tool use support
+const MODELS_WITHOUT_TOOLS = [/^claude-2/, /^claude-instant/];
+
+// Limits and prices per model family, matched in order against the model id
+const MODELS: [RegExp, ModelInfo][] = [
+	[
+		/^claude-3-7-sonnet/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 64000,
+			inputPrice: 3,
+			outputPrice: 15,
+		},
+	],
+	[
+		/^claude-3-5-sonnet/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 8192,
+			inputPrice: 3,
+			outputPrice: 15,
+		},
+	],
+	[
+		/^claude-3-5-haiku/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 8192,
+			inputPrice: 0.8,
+			outputPrice: 4,
+		},
+	],
+	[
+		/^claude-3-opus/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 4096,
+			inputPrice: 15,
+			outputPrice: 75,
+		},
+	],
+	[
+		/^claude-3-sonnet/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 4096,
+			inputPrice: 3,
+			outputPrice: 15,
+		},
+	],
+	[
+		/^claude-3-haiku/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 4096,
+			inputPrice: 0.25,
+			outputPrice: 1.25,
+		},
+	],
+	[
+		/^claude-opus-4-(0|1|2025)/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 32000,
+			inputPrice: 15,
+			outputPrice: 75,
+		},
+	],
+	[
+		/^claude-opus-4/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 64000,
+			inputPrice: 5,
+			outputPrice: 25,
+		},
+	],
+	[
+		/^claude-sonnet-4/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 64000,
+			inputPrice: 3,
+			outputPrice: 15,
+		},
+	],
+	[
+		/^claude-haiku-4/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 64000,
+			inputPrice: 1,
+			outputPrice: 5,
+		},
+	],
+	[
+		/^claude-2\.1/,
+		{
+			contextWindow: 200000,
+			maxOutputTokens: 4096,
+			inputPrice: 8,
+			outputPrice: 24,
+		},
+	],
+	[
+		/^claude-2/,
+		{
+			contextWindow: 100000,
+			maxOutputTokens: 4096,
+			inputPrice: 8,
+			outputPrice: 24,
+		},
+	],
+	[
+		/^claude-instant/,
+		{
+			contextWindow: 100000,
+			maxOutputTokens: 4096,
+			inputPrice: 0.8,
+			outputPrice: 2.4,
+		},
+	],
+];
+
+// Used for models missing from the table above, priced like the most expensive family
+const DEFAULT_MODEL: ModelInfo = {
+	contextWindow: 200000,
+	maxOutputTokens: 4096,
+	inputPrice: 15,
+	outputPrice: 75,
+};
+
+function getModelInfo(model: string): ModelInfo {
+	const entry = MODELS.find(([pattern]) => pattern.test(model));
+	return entry ? entry[1] : DEFAULT_MODEL;
+}
+
+/**
+ * Checks whether a model can return structured output through tool use
+ */
+export function supportsToolUse(model: string): boolean {
+	return !MODELS_WITHOUT_TOOLS.some((pattern) => pattern.test(model));
+}
+
+/**
+ * Returns the largest output token limit a model accepts
+ */
+export function getModelMaxOutputTokens(model: string): number {
+	return getModelInfo(model).maxOutputTokens;
+}
+
+/**
+ * Returns the number of tokens a model accepts for input and output combined
+ */
+export function getModelContextWindow(model: string): number {
+	return getModelInfo(model).contextWindow;
+}
+
+/**
+ * Estimates the cost in USD of the given token usage
+ */
+export function estimateCost(
+	model: string,
+	inputTokens: number,
+	outputTokens: number,
+): number {
+	const { inputPrice, outputPrice } = getModelInfo(model);
+	return (inputTokens * inputPrice + outputTokens * outputPrice) / 1_000_000;
+}
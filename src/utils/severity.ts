@@ -0,0 +1,79 @@
+import type {
+	CommentPriority,
+	ReviewComment,
+	ReviewEvent,
+	ReviewEventPolicy,
+} from "../types";
+
+// Ordered from most to least severe
+const PRIORITIES: CommentPriority[] = ["critical", "high", "medium", "low"];
+
+// Anything carrying the priority of a finding, such as a comment or an open review thread
+type Prioritized = Pick<ReviewComment, "priority">;
+
+/**
+ * Comments without a priority count as low, as in the comment priority filter
+ */
+function getPriority(comment: Prioritized): CommentPriority {
+	return comment.priority ?? "low";
+}
+
+/**
+ * Checks whether a priority is at least as severe as the threshold
+ */
+export function isAtLeastPriority(
+	priority: CommentPriority,
+	threshold: CommentPriority,
+): boolean {
+	return PRIORITIES.indexOf(priority) <= PRIORITIES.indexOf(threshold);
+}
+
+/**
+ * Counts the comments of each priority
+ */
+export function countByPriority(
+	comments: ReviewComment[],
+): Record<CommentPriority, number> {
+	const counts: Record<CommentPriority, number> = {
+		critical: 0,
+		high: 0,
+		medium: 0,
+		low: 0,
+	};
+	for (const comment of comments) {
+		counts[getPriority(comment)]++;
+	}
+	return counts;
+}
+
+/**
+ * Returns the most severe priority among the comments, or undefined when there are none
+ */
+export function getHighestPriority(
+	comments: Prioritized[],
+): CommentPriority | undefined {
+	return PRIORITIES.find((priority) =>
+		comments.some((comment) => getPriority(comment) === priority),
+	);
+}
+
+/**
+ * Maps the most severe finding to the event of the review according to the policy
+ */
+export function getReviewEvent(
+	policy: ReviewEventPolicy,
+	comments: Prioritized[],
+): ReviewEvent {
+	if (policy === "comment") {
+		return "COMMENT";
+	}
+
+	const highest = getHighestPriority(comments);
+	if (highest && isAtLeastPriority(highest, "high")) {
+		return "REQUEST_CHANGES";
+	}
+	if (policy === "approve" && (!highest || highest === "low")) {
+		return "APPROVE";
+	}
+	return "COMMENT";
+}
@@ -0,0 +1,60 @@
+import type { DiffHunk } from "../types";
+import { findDiffLine } from "./diff";
+
+const BRACKET_PAIRS: [string, string][] = [
+	["(", ")"],
+	["[", "]"],
+	["{", "}"],
+];
+
+// Single-line string literals, removed before counting brackets
+const STRING_LITERAL =
+	/"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/g;
+
+/**
+ * Checks that a suggestion can replace lines `startLine` to `endLine` of the new file as GitHub
+ * would apply it: every line must be an added or context line of one diff, match the file content
+ * exactly, and the replacement must keep brackets balanced the way the original lines did.
+ */
+export function canApplySuggestion(
+	hunks: DiffHunk[],
+	fileContent: string,
+	startLine: number,
+	endLine: number,
+	suggestion: string,
+): boolean {
+	const fileLines = fileContent.split("\n");
+	const original: string[] = [];
+
+	for (let line = startLine; line <= endLine; line++) {
+		const diffLine = findDiffLine(hunks, line, "RIGHT");
+		if (!diffLine || diffLine.line.content !== fileLines[line - 1]) {
+			return false;
+		}
+		original.push(diffLine.line.content);
+	}
+
+	const originalText = original.join("\n");
+	return (
+		suggestion !== originalText &&
+		!suggestion.includes("```") &&
+		isBalancedLike(originalText, suggestion)
+	);
+}
+
+/**
+ * Compares the net bracket count of both snippets, so a replacement that opens a block
+ * the original did not, or drops a closing bracket, is rejected
+ */
+function isBalancedLike(original: string, replacement: string): boolean {
+	const balance = (text: string) => {
+		const code = text.replace(STRING_LITERAL, "");
+		return BRACKET_PAIRS.map(
+			([open, close]) => code.split(open).length - code.split(close).length,
+		);
+	};
+
+	const before = balance(original);
+	const after = balance(replacement);
+	return before.every((count, index) => count === after[index]);
+}
@@ -0,0 +1,59 @@
+import { minimatch } from "minimatch";
+import type { PullRequestTrigger, ReviewOptions, TriggerSkip } from "../types";
+
+/**
+ * Matches the whole branch name, so "main" does not match "release/main" as a gitignore rule would
+ */
+function matchesBranch(branch: string, patterns: string[]): boolean {
+	return patterns.some((pattern) => minimatch(branch, pattern));
+}
+
+/**
+ * Decides whether a pull request event should be reviewed. Returns why it is skipped, or
+ * undefined to review it. A force label overrides every other rule.
+ */
+export function evaluateTriggerPolicy(
+	pr: PullRequestTrigger,
+	options: ReviewOptions,
+): TriggerSkip | undefined {
+	const forceLabel = pr.labels.find((label) =>
+		options.forceLabels?.includes(label),
+	);
+	if (forceLabel) {
+		return undefined;
+	}
+
+	if (options.skipDrafts && pr.draft) {
+		return { reason: "draft", detail: "draft" };
+	}
+
+	const skipLabel = pr.labels.find((label) =>
+		options.skipLabels?.includes(label),
+	);
+	if (skipLabel) {
+		return { reason: "label", detail: skipLabel };
+	}
+
+	if (options.skipAuthors?.includes(pr.author)) {
+		return { reason: "author", detail: pr.author };
+	}
+
+	if (options.skipBots && pr.isBot) {
+		return { reason: "bot", detail: pr.author };
+	}
+
+	const baseBranches = options.baseBranches ?? [];
+	if (baseBranches.length > 0 && !matchesBranch(pr.baseRef, baseBranches)) {
+		return { reason: "base-branch", detail: pr.baseRef };
+	}
+
+	if (matchesBranch(pr.headRef, options.skipHeadBranches ?? [])) {
+		return { reason: "head-branch", detail: pr.headRef };
+	}
+
+	if (options.maxChangedLines && pr.changedLines > options.maxChangedLines) {
+		return { reason: "size", detail: String(pr.changedLines) };
+	}
+
+	return undefined;
+}
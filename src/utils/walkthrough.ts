@@ -0,0 +1,59 @@
+import type { Messages } from "../i18n";
+import type { FileChange, Walkthrough } from "../types";
+
+// Markers around the walkthrough in the pull request description, so it can be replaced on later runs
+const WALKTHROUGH_START = "<!-- loxops:walkthrough -->";
+const WALKTHROUGH_END = "<!-- /loxops:walkthrough -->";
+const WALKTHROUGH_BLOCK =
+	/<!-- loxops:walkthrough -->[\s\S]*?<!-- \/loxops:walkthrough -->/;
+
+/**
+ * Renders the walkthrough with one table row per changed file, in the order of the files
+ */
+export function formatWalkthrough(
+	walkthrough: Walkthrough,
+	files: FileChange[],
+	messages: Messages["walkthrough"],
+): string {
+	const cell = (text: string) =>
+		text.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+	const rows = files.map((file) => {
+		const change = `${messages.fileStatuses[file.status]} +${file.additions ?? 0} −${file.deletions ?? 0}`;
+		return `| \`${file.filename}\` | ${change} | ${cell(String(walkthrough.files[file.filename] ?? ""))} |`;
+	});
+
+	let markdown = `## ${messages.heading}\n\n${walkthrough.overview}\n\n`;
+	markdown += `| ${messages.fileColumn} | ${messages.changeColumn} | ${messages.summaryColumn} |\n| --- | --- | --- |\n${rows.join("\n")}`;
+	if (walkthrough.testing) {
+		markdown += `\n\n### ${messages.testingHeading}\n\n${walkthrough.testing}`;
+	}
+
+	return markdown;
+}
+
+/**
+ * Puts the walkthrough into a pull request description, replacing the one from an earlier run
+ * and keeping the author's text around it
+ */
+export function insertWalkthrough(
+	body: string | null,
+	walkthrough: string,
+): string {
+	const block = `${WALKTHROUGH_START}\n${walkthrough}\n${WALKTHROUGH_END}`;
+	const text = body ?? "";
+
+	if (WALKTHROUGH_BLOCK.test(text)) {
+		return text.replace(WALKTHROUGH_BLOCK, () => block);
+	}
+
+	return text.trim() ? `${text.trimEnd()}\n\n${block}` : block;
+}
+
+/**
+ * Returns the author's part of a pull request description, without an earlier walkthrough
+ */
+export function removeWalkthrough(body: string | null): string {
+	return (body ?? "")
+		.replace(new RegExp(`\\s*${WALKTHROUGH_BLOCK.source}\\s*`), "\n\n")
+		.trim();
+}
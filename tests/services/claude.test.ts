@@ -1,5 +1,6 @@
 import { ClaudeService } from "../../src/services/claude";
-import type { ReviewOptions } from "../../src/types";
+import { TokenBudgetService } from "../../src/services/token-budget";
+import type { ReviewContext, ReviewOptions } from "../../src/types";
 
 // Mock the core module to avoid actual logging in tests
 jest.mock("@actions/core", () => ({
@@ -14,9 +15,18 @@ jest.mock("@anthropic-ai/sdk", () => {
 	return {
 		Anthropic: jest.fn().mockImplementation(() => ({
 			messages: {
-				create: jest.fn().mockResolvedValue({
-					content: [{ text: '```json\n{"summary":"Test","comments":[]}\n```' }],
-				}),
+				stream: jest.fn().mockImplementation(() => ({
+					finalMessage: jest.fn().mockResolvedValue({
+						stop_reason: "end_turn",
+						usage: { input_tokens: 0, output_tokens: 0 },
+						content: [
+							{
+								type: "text",
+								text: '```json\n{"summary":"Test","comments":[]}\n```',
+							},
+						],
+					}),
+				})),
 			},
 		})),
 	};
@@ -45,6 +55,10 @@ describe("ClaudeService", () => {
 		sanitizeJsonExposed(text: string) {
 			return this.sanitizeJsonString(text);
 		}
+
+		alternativeParsingExposed(text: string) {
+			return this.alternativeJsonParsing(text);
+		}
 	}
 
 	let service: TestableClaudeService;
@@ -62,6 +76,36 @@ describe("ClaudeService", () => {
 		service = new TestableClaudeService("fake-api-key", options);
 	});
 
+	const context: ReviewContext = {
+		pullRequestNumber: 1,
+		pullRequestTitle: "Test",
+		pullRequestBody: null,
+		repositoryName: "repo",
+		repositoryOwner: "owner",
+		branch: "feature",
+		baseRef: "main",
+		files: [{ filename: "src/a.ts", status: "modified", patch: "+a" }],
+		relatedFiles: {},
+	};
+
+	// Queues the messages returned by the mocked client and returns the request mock
+	function mockResponses(
+		target: ClaudeService,
+		...responses: object[]
+	): jest.Mock {
+		// biome-ignore lint/suspicious/noExplicitAny: Access the mocked client
+		const stream: jest.Mock = (target as any).client.messages.stream;
+		for (const response of responses) {
+			stream.mockReturnValueOnce({
+				finalMessage: jest.fn().mockResolvedValue({
+					usage: { input_tokens: 1000, output_tokens: 100 },
+					...response,
+				}),
+			});
+		}
+		return stream;
+	}
+
 	describe("JSON Parsing", () => {
 		test("extracts JSON from markdown code block", async () => {
 			const response = '```json\n{"summary": "Test", "comments": []}\n```';
@@ -257,6 +301,130 @@ describe("ClaudeService", () => {
 			expect(result.comments[0].priority).toBe("high");
 			expect(result.comments[0].body).toContain("```typescript");
 		});
+
+		test("keeps priority in alternative parsing regardless of key order", async () => {
+			const broken = `{"summary": "Broken", "comments": [
+  {"priority": "critical", "path": "a.ts", "line": 3, "body": "First"},
+  {"path": "b.ts", "body": "Second", "line": 7, "priority": "low"},
+]`;
+
+			const result = service.alternativeParsingExposed(broken);
+			expect(result.comments).toEqual([
+				{ path: "a.ts", line: 3, priority: "critical", body: "First" },
+				{ path: "b.ts", line: 7, priority: "low", body: "Second" },
+			]);
+		});
+
+		test("keeps well-formed line ranges and drops the rest", async () => {
+			const response = `{"summary": "Ranges", "comments": [
+  {"path": "a.ts", "line": 12, "startLine": 8, "endLine": 12, "body": "Range"},
+  {"path": "b.ts", "line": 4, "startLine": 9, "body": "Backwards"}
+]}`;
+
+			const result = await service.parseJsonExposed(response);
+			expect(result.comments[0]).toMatchObject({ startLine: 8, endLine: 12 });
+			expect(result.comments[1].startLine).toBeUndefined();
+			expect(result.comments[1].endLine).toBeUndefined();
+		});
+	});
+
+	describe("Tool Use", () => {
+		test("reads the review from the tool input", async () => {
+			const request = mockResponses(service, {
+				stop_reason: "tool_use",
+				content: [
+					{
+						type: "tool_use",
+						id: "toolu_1",
+						name: "submit_review",
+						input: {
+							summary: "Looks good",
+							comments: [
+								{ path: "src/a.ts", line: 1, priority: "high", body: "Fix `a`" },
+							],
+						},
+					},
+				],
+			});
+
+			const result = await service.generateReview(context);
+
+			expect(request).toHaveBeenCalledWith(
+				expect.objectContaining({
+					tool_choice: { type: "tool", name: "submit_review" },
+				}),
+			);
+			expect(result).toEqual({
+				summary: "Looks good",
+				comments: [
+					{ path: "src/a.ts", line: 1, priority: "high", body: "Fix `a`" },
+				],
+			});
+		});
+
+		test("uses JSON text output for models without tool support", async () => {
+			const legacy = new TestableClaudeService("fake-api-key", {
+				model: "claude-2.1",
+				projectType: "auto",
+				useRepomix: false,
+				fileExtensions: [".ts"],
+				excludePatterns: [],
+				findRelatedFiles: false,
+				maxFiles: 10,
+			});
+			const request = mockResponses(legacy, {
+				stop_reason: "end_turn",
+				content: [
+					{
+						type: "text",
+						text: '```json\n{"summary":"Legacy","comments":[{"path":"src/a.ts","line":1,"priority":"medium","body":"Check"}]}\n```',
+					},
+				],
+			});
+
+			const result = await legacy.generateReview(context);
+
+			expect(request.mock.calls[0][0].tools).toBeUndefined();
+			expect(result.summary).toBe("Legacy");
+			expect(result.comments[0].priority).toBe("medium");
+		});
+
+		test("continues truncated responses and notes it in the summary", async () => {
+			const english = new TestableClaudeService("fake-api-key", {
+				model: "claude-2.1",
+				projectType: "auto",
+				useRepomix: false,
+				fileExtensions: [".ts"],
+				excludePatterns: [],
+				findRelatedFiles: false,
+				maxFiles: 10,
+				reviewLanguage: "en",
+				maxOutputTokens: 100,
+			});
+			const request = mockResponses(
+				english,
+				{
+					stop_reason: "max_tokens",
+					content: [{ type: "text", text: '```json\n{"summary":"Long", ' }],
+				},
+				{
+					stop_reason: "end_turn",
+					content: [{ type: "text", text: '"comments":[]}\n```' }],
+				},
+			);
+
+			const result = await english.generateReview(context);
+
+			expect(request).toHaveBeenCalledTimes(2);
+			expect(request.mock.calls[0][0].max_tokens).toBe(100);
+			expect(request.mock.calls[1][0].messages[1]).toEqual({
+				role: "assistant",
+				content: '```json\n{"summary":"Long",',
+			});
+			expect(result.summary).toBe(
+				"Long\n\n_The response hit the output token limit and was continued 1 times._",
+			);
+		});
 	});
 
 	describe("Comment Filtering", () => {
@@ -487,6 +655,46 @@ describe("ClaudeService", () => {
 			expect(result.summary).toContain("참고: 4개 중 1개의 주요 코멘트만 표시되었습니다");
 		});
 
+		test("should write the filtered comments note in the review language", async () => {
+			const options: ReviewOptions = {
+				model: "claude-3-opus-20240229",
+				projectType: "auto",
+				useRepomix: false,
+				fileExtensions: [".ts", ".js"],
+				excludePatterns: [],
+				findRelatedFiles: false,
+				maxFiles: 10,
+				maxComments: 1,
+				reviewLanguage: "en",
+			};
+			const englishService = new TestableClaudeService("fake-api-key", options);
+
+			const response = `\`\`\`json
+{
+  "summary": "Test summary",
+  "comments": [
+    {
+      "path": "file1.ts",
+      "line": 10,
+      "priority": "high",
+      "body": "High priority comment"
+    },
+    {
+      "path": "file2.ts",
+      "line": 20,
+      "priority": "medium",
+      "body": "Medium priority comment"
+    }
+  ]
+}
+\`\`\``;
+
+			const result = await englishService.parseJsonExposed(response);
+
+			expect(result.comments).toHaveLength(1);
+			expect(result.summary).toContain("Note: only 1 of 2 key comments are shown");
+		});
+
 		test("should handle missing priority values correctly", async () => {
 			// Create a service with commentPriority option
 			const options: ReviewOptions = {
@@ -536,4 +744,172 @@ describe("ClaudeService", () => {
 			expect(result.comments[1].priority).toBe("medium");
 		});
 	});
+	describe("Batching", () => {
+		const batchOptions: ReviewOptions = {
+			model: "claude-3-5-haiku-20241022",
+			projectType: "auto",
+			useRepomix: false,
+			fileExtensions: [".ts"],
+			excludePatterns: [],
+			findRelatedFiles: false,
+			maxFiles: 0,
+			maxBatches: 2,
+			reviewLanguage: "en",
+		};
+		const twoFiles: ReviewContext = {
+			...context,
+			files: [
+				{ filename: "src/a.ts", status: "modified", patch: "+a" },
+				{ filename: "src/b.ts", status: "modified", patch: "+b" },
+			],
+		};
+
+		// Each file gets a batch of its own, as if neither fit in one prompt with the other
+		beforeEach(() => {
+			jest
+				.spyOn(TokenBudgetService.prototype, "splitIntoBatches")
+				.mockImplementation((files) => files.map((file) => [file]));
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		function toolResponse(summary: string, priority: string) {
+			return {
+				stop_reason: "tool_use",
+				content: [
+					{
+						type: "tool_use",
+						id: "toolu_1",
+						name: "submit_review",
+						input: {
+							summary,
+							comments: [{ path: "src/a.ts", line: 1, priority, body: summary }],
+						},
+					},
+				],
+			};
+		}
+
+		test("reviews each batch and merges duplicate comments", async () => {
+			const batched = new TestableClaudeService("fake-api-key", batchOptions);
+			const request = mockResponses(
+				batched,
+				toolResponse("First", "low"),
+				toolResponse("Second", "high"),
+			);
+
+			const result = await batched.generateReview(twoFiles);
+
+			expect(request).toHaveBeenCalledTimes(2);
+			expect(request.mock.calls[0][0].system).toContain(
+				"This review covers batch 1 of 2",
+			);
+			expect(result.summary).toBe(
+				"### Batch 1/2 (1 files)\n\nFirst\n\n### Batch 2/2 (1 files)\n\nSecond",
+			);
+			expect(result.comments).toEqual([
+				{ path: "src/a.ts", line: 1, priority: "high", body: "Second" },
+			]);
+		});
+
+		test("reviews each project with its own template and merges the reviews", async () => {
+			const partitioned = new TestableClaudeService("fake-api-key", batchOptions);
+			const request = mockResponses(
+				partitioned,
+				toolResponse("Web", "medium"),
+				toolResponse("Api", "critical"),
+			);
+
+			const result = await partitioned.generatePartitionedReview(twoFiles, [
+				{
+					name: "web",
+					root: "web",
+					projectType: "nextjs",
+					files: [twoFiles.files[0]],
+				},
+				{
+					name: "api",
+					root: "api",
+					projectType: "fastapi",
+					files: [twoFiles.files[1]],
+				},
+			]);
+
+			expect(request).toHaveBeenCalledTimes(2);
+			expect(request.mock.calls[0][0].system).toContain("Next.js");
+			expect(request.mock.calls[1][0].system).toContain("FastAPI");
+			expect(result.summary).toBe(
+				"### web (`web`, nextjs)\n\nWeb\n\n### api (`api`, fastapi)\n\nApi",
+			);
+			// Both reviews commented on the same line, the more severe comment is kept
+			expect(result.comments).toEqual([
+				{ path: "src/a.ts", line: 1, priority: "critical", body: "Api" },
+			]);
+		});
+
+		test("does not charge the whole output limit against max-cost", async () => {
+			const capped = new TestableClaudeService("fake-api-key", {
+				...batchOptions,
+				model: "claude-3-7-sonnet-latest",
+				maxCost: 0.5,
+			});
+			const request = mockResponses(capped, toolResponse("Reviewed", "low"));
+
+			const result = await capped.generateReview({
+				...twoFiles,
+				files: [twoFiles.files[0]],
+			});
+
+			expect(request).toHaveBeenCalledTimes(1);
+			expect(result.summary).toBe("Reviewed");
+		});
+
+		test("does not reply in a thread when the reply would exceed max-cost", async () => {
+			const capped = new TestableClaudeService("fake-api-key", {
+				...batchOptions,
+				maxCost: 0.001,
+			});
+			const request = mockResponses(capped);
+
+			await expect(
+				capped.replyInThread(
+					{
+						pullRequestNumber: 1,
+						headSha: "head",
+						rootCommentId: 1,
+						path: "src/a.ts",
+						line: 1,
+						diffHunk: "@@ -0,0 +1 @@\n+a",
+						messages: [
+							{ author: "loxops", body: "Finding", fromLoxops: true },
+							{ author: "author", body: "Why?", fromLoxops: false },
+						],
+					},
+					"1: a",
+				),
+			).rejects.toThrow("Claude cost limit of $0.001 reached");
+			expect(request).not.toHaveBeenCalled();
+		});
+
+		test("skips batches that would exceed max-cost", async () => {
+			const capped = new TestableClaudeService("fake-api-key", {
+				...batchOptions,
+				// Enough for one request with the expected 4096 output tokens, not two
+				maxCost: 0.04,
+			});
+			const request = mockResponses(capped, {
+				...toolResponse("First", "low"),
+				usage: { input_tokens: 1000, output_tokens: 6000 },
+			});
+
+			const result = await capped.generateReview(twoFiles);
+
+			expect(request).toHaveBeenCalledTimes(1);
+			expect(result.summary).toContain(
+				"The following 1 files were not reviewed because the estimated cost would exceed the max-cost limit ($0.04): src/b.ts",
+			);
+		});
+	});
 });
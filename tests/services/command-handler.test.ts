@@ -0,0 +1,153 @@
+import { getMessages } from "../../src/i18n";
+import type { ClaudeService } from "../../src/services/claude";
+import { CommandHandlerService } from "../../src/services/command-handler";
+import type { GitHubService } from "../../src/services/github";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("CommandHandlerService", () => {
+	const messages = getMessages("en");
+	const context = { pullRequestNumber: 1, headSha: "head", skippedFiles: [] };
+	const review = { summary: "Summary", comments: [] };
+
+	const githubService = {
+		getCommandComment: jest.fn(),
+		hasWriteAccess: jest.fn(),
+		addReaction: jest.fn(),
+		createReviewComment: jest.fn(),
+		createReviewWithComments: jest.fn(),
+		ignoreFinding: jest.fn(),
+		getPullRequestDetails: jest.fn(),
+		getFileContent: jest.fn(),
+	};
+	const claudeService = { explainCode: jest.fn() };
+	const reviewRunner = {
+		generateReview: jest.fn(),
+		publishReview: jest.fn(),
+	};
+
+	const service = new CommandHandlerService(
+		githubService as unknown as GitHubService,
+		claudeService as unknown as ClaudeService,
+		reviewRunner,
+		messages,
+	);
+
+	const comment = (body: string) => {
+		githubService.getCommandComment.mockReturnValue({
+			id: 5,
+			body,
+			author: "dev",
+			pullRequestNumber: 1,
+		});
+	};
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		githubService.hasWriteAccess.mockResolvedValue(true);
+		reviewRunner.generateReview.mockResolvedValue({ context, review });
+	});
+
+	test("refuses commands of users without write access", async () => {
+		comment("/loxops review");
+		githubService.hasWriteAccess.mockResolvedValue(false);
+
+		expect(await service.handleCommand()).toBe(false);
+		expect(githubService.hasWriteAccess).toHaveBeenCalledWith("dev");
+		expect(githubService.addReaction).toHaveBeenCalledWith(5, "-1");
+		expect(githubService.addReaction).not.toHaveBeenCalledWith(5, "eyes");
+		expect(reviewRunner.generateReview).not.toHaveBeenCalled();
+		expect(githubService.createReviewComment).not.toHaveBeenCalled();
+	});
+
+	test("ignores comments without a command", async () => {
+		comment("Looks good to me");
+
+		expect(await service.handleCommand()).toBe(false);
+		expect(githubService.hasWriteAccess).not.toHaveBeenCalled();
+		expect(githubService.addReaction).not.toHaveBeenCalled();
+	});
+
+	test("acknowledges the command and reviews the whole pull request", async () => {
+		comment("/loxops review");
+
+		expect(await service.handleCommand()).toBe(true);
+		expect(githubService.addReaction).toHaveBeenCalledWith(5, "eyes");
+		expect(reviewRunner.generateReview).toHaveBeenCalledWith([]);
+		expect(reviewRunner.publishReview).toHaveBeenCalledWith(
+			context,
+			review,
+			"head",
+		);
+	});
+
+	test("does not record a reviewed commit for a review limited to some paths", async () => {
+		comment("/loxops review src/**");
+
+		await service.handleCommand();
+
+		expect(reviewRunner.generateReview).toHaveBeenCalledWith(["src/**"]);
+		expect(reviewRunner.publishReview).toHaveBeenCalledWith(
+			context,
+			review,
+			undefined,
+		);
+	});
+
+	test("posts the usage for help", async () => {
+		comment("/loxops help");
+
+		await service.handleCommand();
+
+		expect(githubService.createReviewComment).toHaveBeenCalledWith(
+			1,
+			messages.command.usage,
+		);
+	});
+
+	test.each([
+		[0, messages.command.findingNotFound("abcdef0")],
+		[2, messages.command.findingAmbiguous("abcdef0", 2)],
+	])("reports when %i findings match the fingerprint", async (matches, reply) => {
+		comment("/loxops ignore abcdef0");
+		githubService.ignoreFinding.mockResolvedValue(matches);
+
+		await service.handleCommand();
+
+		expect(githubService.ignoreFinding).toHaveBeenCalledWith(
+			1,
+			"abcdef0",
+			"dev",
+		);
+		expect(githubService.createReviewComment).toHaveBeenCalledWith(1, reply);
+	});
+
+	test("ignores the single matching finding without commenting", async () => {
+		comment("/loxops ignore abcdef0");
+		githubService.ignoreFinding.mockResolvedValue(1);
+
+		await service.handleCommand();
+
+		expect(githubService.createReviewComment).not.toHaveBeenCalled();
+	});
+
+	test("reacts with confusion and rethrows when the command fails", async () => {
+		comment("/loxops explain src/load.ts:40");
+		githubService.getPullRequestDetails.mockResolvedValue({
+			head: { sha: "head" },
+		});
+		githubService.getFileContent.mockResolvedValue("line\n");
+
+		await expect(service.handleCommand()).rejects.toThrow(
+			"src/load.ts has no line 40",
+		);
+		expect(githubService.addReaction).toHaveBeenLastCalledWith(5, "confused");
+		expect(claudeService.explainCode).not.toHaveBeenCalled();
+	});
+});
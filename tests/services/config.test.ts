@@ -0,0 +1,138 @@
+import { ConfigService, resolveOptionsForPath } from "../../src/services/config";
+import type { ReviewOptions } from "../../src/types";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ConfigService", () => {
+	const service = new ConfigService(process.cwd());
+
+	const options: ReviewOptions = {
+		model: "claude-3-5-haiku-20241022",
+		projectType: "auto",
+		useRepomix: true,
+		fileExtensions: [".ts", ".js"],
+		excludePatterns: ["dist/**"],
+		findRelatedFiles: true,
+		maxFiles: 10,
+		commentPriority: "medium",
+	};
+
+	describe("Parsing", () => {
+		test("maps kebab-case keys to review options", () => {
+			const config = service.parseConfig(
+				`model: claude-3-7-sonnet-20250219
+max-files: 20
+use-repomix: false
+file-extensions:
+  - .cs
+  - .java
+exclude-patterns: "vendor/**, *.g.cs"
+`,
+				".loxops.yml",
+			);
+
+			expect(config).toEqual({
+				model: "claude-3-7-sonnet-20250219",
+				maxFiles: 20,
+				useRepomix: false,
+				fileExtensions: [".cs", ".java"],
+				excludePatterns: ["vendor/**", "*.g.cs"],
+			});
+		});
+
+		test("parses path overrides", () => {
+			const config = service.parseConfig(
+				`overrides:
+  - paths: ["server/**"]
+    comment-priority: high
+  - paths:
+      - client/**
+    file-extensions: [.tsx]
+`,
+				".loxops.yml",
+			);
+
+			expect(config.overrides).toEqual([
+				{ paths: ["server/**"], commentPriority: "high" },
+				{ paths: ["client/**"], fileExtensions: [".tsx"] },
+			]);
+		});
+
+		test("reports unknown keys and invalid values with line numbers", () => {
+			expect(() =>
+				service.parseConfig(
+					`model: claude-3-5-haiku-20241022
+modle: typo
+comment-priority: urgent
+overrides:
+  - comment-priority: high
+`,
+					".loxops.yml",
+				),
+			).toThrow(
+				[
+					"Invalid configuration in .loxops.yml:",
+					'  - line 2: unknown key "modle"',
+					'  - line 3: "comment-priority" must be one of all, medium, high, critical (got "urgent")',
+					'  - line 5: "overrides.paths" is required and must not be empty',
+				].join("\n"),
+			);
+		});
+
+		test("reports YAML syntax errors with line numbers", () => {
+			expect(() =>
+				service.parseConfig("model: [unclosed\n", ".loxops.yml"),
+			).toThrow(/line \d+:/);
+		});
+	});
+
+	describe("Merging", () => {
+		test("config values take precedence over inputs", () => {
+			const merged = service.mergeOptions(options, {
+				maxFiles: 30,
+				overrides: [{ paths: ["server/**"], commentPriority: "high" }],
+			});
+
+			expect(merged.maxFiles).toBe(30);
+			expect(merged.model).toBe(options.model);
+			expect(merged.overrides).toHaveLength(1);
+		});
+
+		test("returns inputs unchanged without a config file", () => {
+			expect(service.mergeOptions(options, null)).toBe(options);
+		});
+	});
+
+	describe("resolveOptionsForPath", () => {
+		const withOverrides: ReviewOptions = {
+			...options,
+			overrides: [
+				{ paths: ["server/**"], commentPriority: "high" },
+				{ paths: ["server/legacy/**"], commentPriority: "critical" },
+			],
+		};
+
+		test("applies matching overrides in order", () => {
+			expect(
+				resolveOptionsForPath(withOverrides, "server/legacy/Old.java")
+					.commentPriority,
+			).toBe("critical");
+			expect(
+				resolveOptionsForPath(withOverrides, "server/api/Api.java")
+					.commentPriority,
+			).toBe("high");
+		});
+
+		test("keeps global options for unmatched paths", () => {
+			expect(
+				resolveOptionsForPath(withOverrides, "client/App.tsx").commentPriority,
+			).toBe("medium");
+		});
+	});
+});
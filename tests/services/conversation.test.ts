@@ -0,0 +1,79 @@
+import type { ClaudeService } from "../../src/services/claude";
+import { ConversationService } from "../../src/services/conversation";
+import type { GitHubService } from "../../src/services/github";
+import type { ReviewConversation } from "../../src/types";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ConversationService", () => {
+	const conversation = (loxopsReplies: number): ReviewConversation => ({
+		pullRequestNumber: 1,
+		headSha: "abc",
+		rootCommentId: 7,
+		path: "src/load.ts",
+		line: 2,
+		diffHunk: "@@ -1,2 +1,2 @@\n function load() {\n+\treturn JSON.parse(raw);",
+		messages: [
+			{ author: "bot", body: "Handle invalid JSON", fromLoxops: true },
+			...Array.from({ length: loxopsReplies }, () => [
+				{ author: "dev", body: "Why?", fromLoxops: false },
+				{ author: "bot", body: "Because it throws", fromLoxops: true },
+			]).flat(),
+			{ author: "dev", body: "It is validated upstream", fromLoxops: false },
+		],
+	});
+
+	const githubService = {
+		getReviewConversation: jest.fn(),
+		getFileContent: jest.fn(),
+		replyInThread: jest.fn(),
+	};
+	const claudeService = { replyInThread: jest.fn() };
+
+	const service = new ConversationService(
+		githubService as unknown as GitHubService,
+		claudeService as unknown as ClaudeService,
+		2,
+	);
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		githubService.getFileContent.mockResolvedValue(
+			"function load() {\n\treturn JSON.parse(raw);\n}",
+		);
+		claudeService.replyInThread.mockResolvedValue("Fair point, resolving.");
+	});
+
+	test("answers the reply with the thread and the numbered head code", async () => {
+		githubService.getReviewConversation.mockResolvedValue(conversation(1));
+
+		expect(await service.replyToConversation()).toBe(true);
+		expect(githubService.getFileContent).toHaveBeenCalledWith(
+			"src/load.ts",
+			"abc",
+		);
+		expect(claudeService.replyInThread).toHaveBeenCalledWith(
+			conversation(1),
+			"1: function load() {\n2: \treturn JSON.parse(raw);\n3: }",
+		);
+		expect(githubService.replyInThread).toHaveBeenCalledWith(
+			1,
+			7,
+			"Fair point, resolving.",
+		);
+	});
+
+	test("stops replying once the thread reaches the reply cap", async () => {
+		githubService.getReviewConversation.mockResolvedValue(conversation(2));
+
+		expect(await service.replyToConversation()).toBe(false);
+		expect(claudeService.replyInThread).not.toHaveBeenCalled();
+		expect(githubService.replyInThread).not.toHaveBeenCalled();
+	});
+});
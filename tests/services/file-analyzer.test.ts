@@ -0,0 +1,126 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { FileAnalyzerService } from "../../src/services/file-analyzer";
+import type {
+	FileChange,
+	ProjectDetectionResult,
+	ReviewOptions,
+} from "../../src/types";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+jest.mock("@actions/github", () => ({
+	getOctokit: jest.fn(),
+	context: {},
+}));
+
+describe("FileAnalyzerService", () => {
+	// Skips the job summary, which needs the Actions runner
+	class TestableFileAnalyzerService extends FileAnalyzerService {
+		protected reportDetection(_result: ProjectDetectionResult): void {}
+	}
+
+	const options: ReviewOptions = {
+		model: "claude-3-5-haiku-20241022",
+		projectType: "auto",
+		useRepomix: false,
+		fileExtensions: [".ts", ".py", ".cs", ".kt"],
+		excludePatterns: [],
+		findRelatedFiles: false,
+		maxFiles: 10,
+	};
+	const file = (filename: string, fullContent?: string): FileChange => ({
+		filename,
+		status: "modified",
+		patch: "+x",
+		fullContent,
+	});
+
+	let workspace: string;
+	let analyzer: TestableFileAnalyzerService;
+
+	beforeAll(() => {
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), "loxops-"));
+		const manifests: Record<string, string> = {
+			"api/pyproject.toml": '[project]\ndependencies = ["FastAPI>=0.110"]\n',
+			"mobile/app/build.gradle": "plugins { id 'com.android.application' }\n",
+			"web/package.json": '{ "dependencies": { "react": "^18.0.0" } }\n',
+		};
+		for (const [name, content] of Object.entries(manifests)) {
+			fs.mkdirSync(path.dirname(path.join(workspace, name)), {
+				recursive: true,
+			});
+			fs.writeFileSync(path.join(workspace, name), content);
+		}
+		analyzer = new TestableFileAnalyzerService("token", options, workspace);
+	});
+
+	afterAll(() => {
+		fs.rmSync(workspace, { recursive: true, force: true });
+	});
+
+	describe("Project detection", () => {
+		test("falls back to auto below the detection threshold", () => {
+			const result = analyzer.detectProjectType([file("scripts/tool.py")]);
+
+			expect(result.projectType).toBe("auto");
+			expect(result.scores.fastapi).toBe(1);
+		});
+
+		test("caps the matches of a rule so many files do not reach the threshold alone", () => {
+			const files = Array.from({ length: 10 }, (_, index) =>
+				file(`src/Model${index}.cs`),
+			);
+
+			const result = analyzer.detectProjectType(files);
+
+			expect(result.scores.unity).toBe(3);
+			expect(result.projectType).toBe("auto");
+		});
+
+		test("combines path and import signals", () => {
+			const result = analyzer.detectProjectType([
+				file("Scripts/Player.cs", "using UnityEngine;\n\npublic class Player : MonoBehaviour {}"),
+				file("src/Service.java"),
+			]);
+
+			expect(result.projectType).toBe("unity");
+			expect(result.scores).toMatchObject({ unity: 6, springboot: 1 });
+			expect(result.confidence).toBeCloseTo(6 / 7);
+		});
+
+		test("detects the project type from manifests under the project root", () => {
+			expect(
+				analyzer.detectProjectType([file("api/app/main.py")], "api"),
+			).toMatchObject({
+				projectType: "fastapi",
+				scores: { fastapi: 9 },
+			});
+			expect(
+				analyzer.detectProjectType([file("mobile/app/src/Main.kt")], "mobile")
+					.evidence,
+			).toContainEqual({
+				projectType: "android",
+				signal: "mobile/app/build.gradle: Android Gradle plugin",
+				score: 8,
+			});
+		});
+
+		test("ignores manifests without the framework dependency", () => {
+			const result = analyzer.detectProjectType(
+				[file("web/src/index.ts")],
+				"web",
+			);
+
+			expect(result.projectType).toBe("auto");
+			expect(result.scores.nextjs).toBe(0);
+		});
+	});
+});
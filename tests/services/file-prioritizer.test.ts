@@ -0,0 +1,100 @@
+import type * as github from "@actions/github";
+import { FilePrioritizerService } from "../../src/services/file-prioritizer";
+import type { FileChange } from "../../src/types";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("FilePrioritizerService", () => {
+	const listCommits = jest.fn();
+	const octokit = {
+		rest: { repos: { listCommits } },
+	} as unknown as ReturnType<typeof github.getOctokit>;
+	const repo = { owner: "owner", repo: "repo" };
+
+	beforeEach(() => {
+		listCommits.mockReset();
+		listCommits.mockResolvedValue({ data: [] });
+	});
+
+	const file = (
+		filename: string,
+		changes: number,
+		patch = "+change",
+	): FileChange => ({
+		filename,
+		status: "modified",
+		patch,
+		additions: changes,
+		deletions: 0,
+	});
+
+	test("skips lockfiles and generated code before ranking", async () => {
+		const service = new FilePrioritizerService(octokit, repo, "auto");
+
+		const { selected, skipped } = await service.prioritize(
+			[
+				file("pnpm-lock.yaml", 500),
+				file("src/api.pb.go", 300),
+				{
+					...file("src/schema.ts", 200),
+					status: "added",
+					patch: "+// @generated by codegen\n+export type A = string;",
+				},
+				file("src/service.ts", 10),
+			],
+			3,
+		);
+
+		expect(selected.map((f) => f.filename)).toEqual(["src/service.ts"]);
+		expect(skipped).toEqual([
+			{ filename: "pnpm-lock.yaml", reason: "lockfile" },
+			{ filename: "src/api.pb.go", reason: "generated" },
+			{ filename: "src/schema.ts", reason: "generated" },
+		]);
+	});
+
+	test("ranks source files and hotspots above config and docs", async () => {
+		const service = new FilePrioritizerService(octokit, repo, "springboot");
+
+		const { selected, skipped } = await service.prioritize(
+			[
+				file("README.md", 40),
+				file("src/main/resources/application.yml", 40),
+				file("src/main/java/Util.java", 10),
+				file("src/main/java/UserController.java", 10),
+			],
+			2,
+		);
+
+		expect(selected.map((f) => f.filename)).toEqual([
+			"src/main/java/UserController.java",
+			"src/main/java/Util.java",
+		]);
+		expect(skipped.map((s) => [s.filename, s.reason])).toEqual([
+			["src/main/resources/application.yml", "low-priority"],
+			["README.md", "low-priority"],
+		]);
+	});
+
+	test("uses recent commit history to break ties", async () => {
+		listCommits.mockImplementation(({ path }: { path: string }) =>
+			Promise.resolve({
+				data: path === "src/b.ts" ? new Array(20).fill({}) : [],
+			}),
+		);
+		const service = new FilePrioritizerService(octokit, repo, "auto");
+
+		const { selected } = await service.prioritize(
+			[file("src/a.ts", 10), file("src/b.ts", 10)],
+			1,
+		);
+
+		expect(selected.map((f) => f.filename)).toEqual(["src/b.ts"]);
+	});
+});
@@ -0,0 +1,734 @@
+import type { FileAnalyzerService } from "../../src/services/file-analyzer";
+import { GitHubService } from "../../src/services/github";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+const octokit = {
+	paginate: jest.fn(),
+	graphql: jest.fn(),
+	rest: {
+		pulls: {
+			get: jest.fn(),
+			update: jest.fn(),
+			listFiles: jest.fn(),
+			createReview: jest.fn(),
+			createReviewComment: jest.fn(),
+			listReviewComments: jest.fn(),
+			createReplyForReviewComment: jest.fn(),
+			dismissReview: jest.fn(),
+			listReviews: jest.fn(),
+			updateReviewComment: jest.fn(),
+		},
+		repos: {
+			getContent: jest.fn(),
+			compareCommitsWithBasehead: jest.fn(),
+			getCollaboratorPermissionLevel: jest.fn(),
+		},
+		issues: {
+			listEvents: jest.fn(),
+			createComment: jest.fn(),
+			updateComment: jest.fn(),
+			listComments: jest.fn(),
+		},
+		checks: { create: jest.fn(), update: jest.fn() },
+	},
+};
+
+const payload: Record<string, unknown> = {};
+let eventName = "pull_request";
+
+jest.mock("@actions/github", () => ({
+	getOctokit: () => octokit,
+	context: {
+		repo: { owner: "owner", repo: "repo" },
+		serverUrl: "https://github.com",
+		// Read lazily because jest.mock is hoisted above the declaration
+		get payload() {
+			return payload;
+		},
+		get eventName() {
+			return eventName;
+		},
+	},
+}));
+
+describe("GitHubService", () => {
+	const bot = { login: "github-actions[bot]", type: "Bot" };
+	const content = [
+		"export function load(path: string) {",
+		"\tconst raw = readFileSync(path);",
+		"\treturn JSON.parse(raw);",
+		"}",
+		"",
+		"export const VERSION = 1;",
+	].join("\n");
+	const patch = [
+		"@@ -1,3 +1,4 @@",
+		" export function load(path: string) {",
+		"-\treturn JSON.parse(readFileSync(path));",
+		"+\tconst raw = readFileSync(path);",
+		"+\treturn JSON.parse(raw);",
+		" }",
+	].join("\n");
+
+	let service: GitHubService;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		// Resolves every list call as a single page
+		octokit.paginate.mockImplementation(
+			async (method, params) => (await method(params)).data,
+		);
+		octokit.rest.pulls.get.mockResolvedValue({
+			data: { head: { sha: "head" }, base: { sha: "base" } },
+		});
+		octokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: "src/load.ts", patch }],
+		});
+		octokit.rest.repos.getContent.mockResolvedValue({
+			data: {
+				content: Buffer.from(content).toString("base64"),
+				encoding: "base64",
+			},
+		});
+		service = new GitHubService(
+			"token",
+			{ shouldAnalyzeFile: () => true } as unknown as FileAnalyzerService,
+			"en",
+		);
+	});
+
+	test("moves comments quoting changed code onto the diff and lists the rest in the summary", async () => {
+		await service.createReviewWithComments(1, {
+			summary: "Summary",
+			comments: [
+				{
+					path: "src/load.ts",
+					line: 30,
+					body: "`JSON.parse(raw)` throws on invalid input",
+				},
+				{ path: "src/version.ts", line: 6, body: "Bump the version" },
+			],
+		});
+
+		const { comments } = octokit.rest.pulls.createReview.mock.calls[0][0];
+		expect(comments).toHaveLength(1);
+		expect(comments[0]).toMatchObject({ path: "src/load.ts", line: 3 });
+		expect(comments[0].body).toContain("Moved here from line 30");
+		// The start of the hidden fingerprint is shown for `/loxops ignore`
+		const fingerprint = comments[0].body.match(
+			/<!-- loxops:fingerprint ([0-9a-f]{16}) -->/,
+		)[1];
+		expect(comments[0].body).toContain(
+			`<sub>\`loxops:${fingerprint.slice(0, 8)}\`</sub>`,
+		);
+
+		const { body } = octokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain("## Additional findings");
+		expect(body).toContain(
+			"[`src/version.ts:6`](https://github.com/owner/repo/blob/head/src/version.ts#L6): Bump the version",
+		);
+	});
+
+	test("moves comments only onto changed lines of the nearest hunk", async () => {
+		octokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [
+				{
+					filename: "src/load.ts",
+					patch: [
+						patch,
+						"@@ -20,3 +21,4 @@",
+						" const a = 1;",
+						"+const b = JSON.parse(raw);",
+						" const c = 3;",
+						" const d = 4;",
+					].join("\n"),
+				},
+			],
+		});
+
+		await service.createReviewWithComments(1, {
+			summary: "Summary",
+			comments: [
+				// Quotes code of the first hunk, but is nearest to the second one
+				{
+					path: "src/load.ts",
+					line: 19,
+					body: "`readFileSync(path)` blocks the event loop",
+				},
+				// Nearest to a context line, too far from the changed line
+				{ path: "src/load.ts", line: 26, body: "Group the constants" },
+			],
+		});
+
+		const { comments } = octokit.rest.pulls.createReview.mock.calls[0][0];
+		expect(comments).toHaveLength(1);
+		expect(comments[0]).toMatchObject({ line: 22, side: "RIGHT" });
+		expect(octokit.rest.issues.createComment.mock.calls[0][0].body).toContain(
+			"`src/load.ts:26`",
+		);
+	});
+
+	test("skips findings already posted in an earlier review", async () => {
+		const review = {
+			summary: "Summary",
+			comments: [
+				{ path: "src/load.ts", line: 3, body: "Handle **invalid** JSON." },
+				{ path: "src/load.ts", line: 2, body: "Use async file reads" },
+			],
+		};
+		await service.createReviewWithComments(1, review);
+		const [earlier] =
+			octokit.rest.pulls.createReview.mock.calls[0][0].comments;
+
+		jest.clearAllMocks();
+		octokit.rest.pulls.listReviewComments.mockResolvedValue({
+			data: [{ id: 9, user: bot, body: earlier.body }],
+		});
+		await service.createReviewWithComments(1, {
+			...review,
+			comments: [
+				{ ...review.comments[0], body: "Handle invalid `JSON`" },
+				// A different concern on the same line is a new finding
+				{ ...review.comments[0], body: "Log the parse error" },
+			],
+		});
+
+		const { comments } = octokit.rest.pulls.createReview.mock.calls[0][0];
+		expect(comments).toHaveLength(1);
+		expect(comments[0]).toMatchObject({ line: 3 });
+		expect(comments[0].body).toContain("Log the parse error");
+		expect(octokit.rest.pulls.updateReviewComment).not.toHaveBeenCalled();
+		expect(octokit.rest.issues.createComment.mock.calls[0][0].body).toContain(
+			"1 comments already posted in an earlier review were not posted again.",
+		);
+	});
+
+	test("reads the priority of each finding back from its open thread", async () => {
+		await service.createReviewWithComments(1, {
+			summary: "Summary",
+			comments: [
+				{
+					path: "src/load.ts",
+					line: 3,
+					priority: "critical",
+					body: "Handle invalid JSON",
+				},
+			],
+		});
+		const [posted] = octokit.rest.pulls.createReview.mock.calls[0][0].comments;
+		octokit.graphql.mockReset().mockResolvedValueOnce({
+			repository: {
+				pullRequest: {
+					reviewThreads: {
+						pageInfo: { hasNextPage: false, endCursor: null },
+						nodes: [
+							{
+								id: "T1",
+								isResolved: false,
+								path: "src/load.ts",
+								line: 3,
+								originalLine: 3,
+								comments: {
+									nodes: [
+										{
+											databaseId: 1,
+											body: posted.body,
+											diffHunk: patch,
+											author: { login: "github-actions", __typename: "Bot" },
+										},
+									],
+								},
+							},
+						],
+					},
+				},
+			},
+		});
+
+		const [thread] = await service.getOpenLoxopsThreads(1);
+
+		expect(thread.priority).toBe("critical");
+	});
+
+	test("submits the review event even without line comments", async () => {
+		await service.createReviewWithComments(
+			1,
+			{
+				summary: "Summary",
+				comments: [
+					{
+						path: "src/version.ts",
+						line: 6,
+						priority: "critical",
+						body: "Breaks",
+					},
+				],
+			},
+			{ event: "REQUEST_CHANGES" },
+		);
+
+		expect(octokit.rest.pulls.createReview).toHaveBeenCalledWith(
+			expect.objectContaining({ event: "REQUEST_CHANGES", comments: [] }),
+		);
+	});
+
+	test("records the reviewed head without line comments in check-run mode", async () => {
+		await service.createReviewWithComments(
+			1,
+			{
+				summary: "Summary",
+				comments: [{ path: "src/load.ts", line: 3, body: "Handle errors" }],
+			},
+			{ reviewedSha: "d".repeat(40), lineComments: false },
+		);
+
+		expect(octokit.rest.issues.createComment.mock.calls[0][0].body).toContain(
+			`<!-- loxops:reviewed-sha ${"d".repeat(40)} -->`,
+		);
+		expect(octokit.rest.pulls.listFiles).not.toHaveBeenCalled();
+		expect(octokit.rest.pulls.createReview).not.toHaveBeenCalled();
+	});
+
+	test("publishes annotations in batches of 50 on a check run", async () => {
+		octokit.rest.checks.create.mockResolvedValue({ data: { id: 5 } });
+		const comments = Array.from({ length: 120 }, (_, index) => ({
+			path: "src/load.ts",
+			line: index + 1,
+			priority: index === 0 ? ("high" as const) : ("low" as const),
+			body: `Finding ${index}`,
+		}));
+
+		await service.createCheckRun(1, { summary: "Summary", comments });
+
+		const created = octokit.rest.checks.create.mock.calls[0][0];
+		expect(created).toMatchObject({ head_sha: "head", status: "in_progress" });
+		expect(created.output.annotations).toHaveLength(50);
+		expect(created.output.annotations[0].annotation_level).toBe("failure");
+
+		const updates = octokit.rest.checks.update.mock.calls.map(
+			([request]) => request,
+		);
+		expect(updates.map((update) => update.output.annotations.length)).toEqual([
+			50, 20,
+		]);
+		expect(updates[0].status).toBeUndefined();
+		expect(updates[1]).toMatchObject({
+			check_run_id: 5,
+			status: "completed",
+			conclusion: "failure",
+		});
+	});
+
+	test("dismisses only the change requests of the action's own account", async () => {
+		octokit.rest.pulls.listReviews.mockResolvedValue({
+			data: [
+				{ id: 1, user: bot, state: "CHANGES_REQUESTED" },
+				{ id: 2, user: bot, state: "COMMENTED" },
+				{
+					id: 3,
+					user: { login: "maintainer", type: "User" },
+					state: "CHANGES_REQUESTED",
+				},
+			],
+		});
+
+		const dismissed = await service.dismissChangeRequests(1, "c".repeat(40));
+
+		expect(dismissed).toBe(1);
+		expect(octokit.rest.pulls.dismissReview).toHaveBeenCalledWith(
+			expect.objectContaining({
+				review_id: 1,
+				message: "The review of ccccccc no longer requests changes.",
+			}),
+		);
+	});
+
+	test("returns only the labels the action's own account added last", async () => {
+		const person = { login: "maintainer", type: "User" };
+		octokit.rest.issues.listEvents.mockResolvedValue({
+			data: [
+				{ event: "labeled", actor: bot, label: { name: "risk/low" } },
+				{ event: "labeled", actor: person, label: { name: "risk/high" } },
+				{ event: "labeled", actor: bot, label: { name: "area/server" } },
+				{ event: "unlabeled", actor: person, label: { name: "area/server" } },
+				{ event: "labeled", actor: person, label: { name: "area/server" } },
+			],
+		});
+
+		expect(await service.getOwnLabels(1)).toEqual(["risk/low"]);
+	});
+
+	test("keeps description edits made while the walkthrough was generated", async () => {
+		octokit.rest.pulls.get.mockResolvedValue({
+			data: {
+				body: "Edited during the run\n\n<!-- loxops:walkthrough -->\nOld\n<!-- /loxops:walkthrough -->",
+			},
+		});
+
+		await service.updatePullRequestWalkthrough(1, "New");
+
+		expect(octokit.rest.pulls.update).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: "Edited during the run\n\n<!-- loxops:walkthrough -->\nNew\n<!-- /loxops:walkthrough -->",
+			}),
+		);
+	});
+
+	describe("Summary comment", () => {
+		const previousSha = "c".repeat(40);
+
+		test("edits the previous summary and keeps its assessment in the history", async () => {
+			const first = (
+				service as unknown as {
+					buildStickyBody: (body: string, previous?: string) => string;
+				}
+			).buildStickyBody(
+				`# Loxops\n\nFirst assessment\n\n<!-- loxops:reviewed-sha ${previousSha} -->`,
+			);
+			octokit.rest.issues.listComments.mockResolvedValue({
+				data: [
+					{ id: 7, user: bot, body: first },
+					{
+						id: 8,
+						user: { login: "author", type: "User" },
+						body: "Quoting <!-- loxops:summary -->",
+					},
+				],
+			});
+
+			await service.createReviewWithComments(1, {
+				summary: "Second assessment",
+				comments: [],
+			});
+
+			expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+			const { comment_id, body } =
+				octokit.rest.issues.updateComment.mock.calls[0][0];
+			expect(comment_id).toBe(7);
+			expect(body.indexOf("Second assessment")).toBeLessThan(
+				body.indexOf("<summary>Previous reviews (1)</summary>"),
+			);
+			expect(body).toContain("#### Review of commit ccccccc\n\nFirst assessment");
+		});
+
+		test("posts a new comment on every run in append mode", async () => {
+			const appending = new GitHubService(
+				"token",
+				{} as FileAnalyzerService,
+				"en",
+				"append",
+			);
+
+			await appending.createReviewWithComments(1, {
+				summary: "Assessment",
+				comments: [],
+			});
+
+			expect(octokit.paginate).not.toHaveBeenCalled();
+			expect(octokit.rest.issues.createComment.mock.calls[0][0].body).not.toContain(
+				"<!-- loxops:summary -->",
+			);
+		});
+	});
+
+	describe("Incremental review", () => {
+		const lastSha = "a".repeat(40);
+		const headSha = "b".repeat(40);
+
+		beforeEach(() => {
+			Object.assign(payload, {
+				action: "synchronize",
+				pull_request: {
+					number: 1,
+					title: "Title",
+					body: null,
+					head: { ref: "feature", sha: headSha },
+					base: { ref: "main" },
+				},
+			});
+			octokit.rest.issues.listComments.mockResolvedValue({
+				data: [
+					{
+						user: bot,
+						body: `# Loxops\n\n<!-- loxops:reviewed-sha ${lastSha} -->\n\n<!-- loxops:summary -->`,
+					},
+				],
+			});
+		});
+
+		test("reviews only the files changed since the last reviewed commit", async () => {
+			octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+				data: {
+					status: "ahead",
+					files: [{ filename: "src/new.ts", status: "added", patch: "+x" }],
+				},
+			});
+
+			const context = await service.prepareReviewContext(10);
+
+			expect(
+				octokit.rest.repos.compareCommitsWithBasehead,
+			).toHaveBeenCalledWith(
+				expect.objectContaining({ basehead: `${lastSha}...${headSha}` }),
+			);
+			expect(context.files.map((file) => file.filename)).toEqual([
+				"src/new.ts",
+			]);
+			expect(context.headSha).toBe(headSha);
+			expect(octokit.rest.pulls.listFiles).not.toHaveBeenCalled();
+		});
+
+		test("reads the old contents at the last reviewed commit", async () => {
+			octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+				data: {
+					status: "ahead",
+					files: [{ filename: "src/load.ts", status: "modified", patch }],
+				},
+			});
+
+			const context = await service.prepareReviewContext(10);
+
+			expect(context.comparedSha).toBe(lastSha);
+			expect(octokit.rest.repos.getContent).toHaveBeenCalledWith(
+				expect.objectContaining({ path: "src/load.ts", ref: lastSha }),
+			);
+			expect(octokit.rest.repos.getContent).not.toHaveBeenCalledWith(
+				expect.objectContaining({ ref: "main" }),
+			);
+		});
+
+		test("lists removed-line findings of the new commits instead of placing them on the PR diff", async () => {
+			octokit.rest.pulls.listReviewComments.mockResolvedValue({ data: [] });
+			await service.createReviewWithComments(
+				1,
+				{
+					summary: "Summary",
+					comments: [
+						{ path: "src/load.ts", line: 2, side: "LEFT", body: "Keep the sync read" },
+						{ path: "src/load.ts", line: 3, body: "Handle invalid JSON" },
+					],
+				},
+				{ comparedSha: lastSha },
+			);
+
+			const { comments } = octokit.rest.pulls.createReview.mock.calls[0][0];
+			expect(comments).toHaveLength(1);
+			expect(comments[0]).toMatchObject({ line: 3, side: "RIGHT" });
+			// Updates the summary comment of the last review
+			expect(octokit.rest.issues.updateComment.mock.calls[0][0].body).toContain(
+				`[\`src/load.ts:2\`](https://github.com/owner/repo/blob/${lastSha}/src/load.ts#L2): Keep the sync read`,
+			);
+		});
+
+		test("ignores reviewed commits recorded by anyone but the action", async () => {
+			octokit.rest.issues.listComments.mockResolvedValue({
+				data: [
+					{
+						user: { login: "author", type: "User" },
+						body: `<!-- loxops:reviewed-sha ${lastSha} -->\n\n<!-- loxops:summary -->`,
+					},
+				],
+			});
+			octokit.rest.pulls.listFiles.mockResolvedValue({
+				data: [{ filename: "src/load.ts", status: "modified", patch }],
+			});
+
+			await service.prepareReviewContext(10);
+
+			expect(
+				octokit.rest.repos.compareCommitsWithBasehead,
+			).not.toHaveBeenCalled();
+		});
+
+		test("falls back to the whole pull request after a force-push", async () => {
+			octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+				data: { status: "diverged", files: [] },
+			});
+			octokit.rest.pulls.listFiles
+				.mockResolvedValueOnce({
+					data: [{ filename: "src/load.ts", status: "modified", patch }],
+				})
+				.mockResolvedValueOnce({ data: [] });
+
+			const context = await service.prepareReviewContext(10);
+
+			expect(context.files.map((file) => file.filename)).toEqual([
+				"src/load.ts",
+			]);
+		});
+
+		test("reviews the whole pull request when the comparison is truncated", async () => {
+			const files = Array.from({ length: 301 }, (_, index) => ({
+				filename: `src/file-${index}.ts`,
+				status: "modified",
+				patch: "+x",
+			}));
+			octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+				data: { status: "ahead", files: files.slice(0, 300) },
+			});
+			octokit.rest.pulls.listFiles.mockReset().mockResolvedValue({ data: files });
+
+			// A max-files of 0 reviews every changed file
+			const context = await service.prepareReviewContext(0);
+
+			expect(octokit.paginate).toHaveBeenCalledWith(
+				octokit.rest.pulls.listFiles,
+				expect.objectContaining({ pull_number: 1, per_page: 100 }),
+			);
+			expect(context.files).toHaveLength(301);
+		});
+	});
+
+	describe("Review conversation", () => {
+		const finding = {
+			id: 1,
+			user: bot,
+			path: "src/load.ts",
+			line: 3,
+			diff_hunk: patch,
+			body: "Handle invalid JSON\n\n<!-- loxops:fingerprint abcdef0123456789 -->",
+		};
+		const reply = (id: number, user: object, body: string) => ({
+			id,
+			in_reply_to_id: 1,
+			user,
+			body,
+		});
+		const author = { login: "author", type: "User" };
+
+		beforeEach(() => {
+			eventName = "pull_request_review_comment";
+			Object.assign(payload, {
+				comment: reply(4, author, "Why?"),
+				pull_request: { number: 1, head: { sha: "head" } },
+			});
+		});
+
+		afterEach(() => {
+			eventName = "pull_request";
+			payload.comment = undefined;
+		});
+
+		test("counts only replies of the action's own account as Loxops replies", async () => {
+			octokit.rest.pulls.listReviewComments.mockResolvedValue({
+				data: [
+					finding,
+					reply(2, bot, "Because\n\n<!-- loxops:reply -->"),
+					reply(3, author, "Pasted <!-- loxops:reply -->"),
+				],
+			});
+
+			const conversation = await service.getReviewConversation();
+
+			expect(conversation?.rootCommentId).toBe(1);
+			expect(conversation?.messages).toEqual([
+				{ author: "github-actions[bot]", body: "Handle invalid JSON", fromLoxops: true },
+				{ author: "github-actions[bot]", body: "Because", fromLoxops: true },
+				{ author: "author", body: "Pasted", fromLoxops: false },
+				{ author: "author", body: "Why?", fromLoxops: false },
+			]);
+		});
+
+		test("ignores threads whose finding was not posted by the action", async () => {
+			octokit.rest.pulls.listReviewComments.mockResolvedValue({
+				data: [{ ...finding, user: author }],
+			});
+
+			expect(await service.getReviewConversation()).toBeUndefined();
+		});
+	});
+
+	describe("Commands", () => {
+		test.each([
+			["admin", true],
+			["write", true],
+			["read", false],
+			["none", false],
+		])("grants commands to %s access: %s", async (permission, expected) => {
+			octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValue({
+				data: { permission },
+			});
+
+			expect(await service.hasWriteAccess("dev")).toBe(expected);
+		});
+
+		test("denies commands when the permission cannot be checked", async () => {
+			octokit.rest.repos.getCollaboratorPermissionLevel.mockRejectedValue(
+				new Error("Not Found"),
+			);
+
+			expect(await service.hasWriteAccess("dev")).toBe(false);
+		});
+
+		describe("Ignoring findings", () => {
+			const thread = (
+				id: string,
+				fingerprint: string,
+				author = { login: "github-actions", __typename: "Bot" },
+			) => ({
+				id,
+				isResolved: false,
+				path: "src/load.ts",
+				line: 3,
+				originalLine: 3,
+				comments: {
+					nodes: [
+						{
+							databaseId: Number(id.slice(1)),
+							body: `Handle invalid JSON\n\n<!-- loxops:fingerprint ${fingerprint} -->`,
+							diffHunk: patch,
+							author,
+						},
+					],
+				},
+			});
+
+			beforeEach(() => {
+				octokit.graphql.mockReset().mockResolvedValueOnce({
+					repository: {
+						pullRequest: {
+							reviewThreads: {
+								pageInfo: { hasNextPage: false, endCursor: null },
+								nodes: [
+									thread("T1", "abcdef0123456789"),
+									thread("T2", "abcdef0987654321"),
+									// Copies the marker, but was not posted by the action
+									thread("T3", "abcdef0123456789", {
+										login: "mallory",
+										__typename: "User",
+									}),
+								],
+							},
+						},
+					},
+				});
+			});
+
+			test("resolves the single thread matching the fingerprint", async () => {
+				expect(await service.ignoreFinding(1, "abcdef012", "dev")).toBe(1);
+				expect(octokit.graphql).toHaveBeenLastCalledWith(
+					expect.stringContaining("resolveReviewThread"),
+					{ threadId: "T1" },
+				);
+				expect(
+					octokit.rest.pulls.createReplyForReviewComment,
+				).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 1 }));
+			});
+
+			test("resolves nothing when the fingerprint matches several threads", async () => {
+				expect(await service.ignoreFinding(1, "abcdef0", "dev")).toBe(2);
+				expect(octokit.graphql).toHaveBeenCalledTimes(1);
+				expect(
+					octokit.rest.pulls.createReplyForReviewComment,
+				).not.toHaveBeenCalled();
+			});
+		});
+	});
+});
@@ -0,0 +1,116 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { FileAnalyzerService } from "../../src/services/file-analyzer";
+import { ProjectPartitionerService } from "../../src/services/project-partitioner";
+import type { FileChange, ReviewOptions } from "../../src/types";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ProjectPartitionerService", () => {
+	const options: ReviewOptions = {
+		model: "claude-3-5-haiku-20241022",
+		projectType: "auto",
+		useRepomix: false,
+		fileExtensions: [".ts", ".py", ".cs"],
+		excludePatterns: [],
+		findRelatedFiles: false,
+		maxFiles: 10,
+	};
+	const fileAnalyzer = {
+		detectProjectType: jest.fn((_files: FileChange[], root: string) => ({
+			projectType: root === "web" ? "nextjs" : "fastapi",
+		})),
+	};
+	const file = (filename: string): FileChange => ({
+		filename,
+		status: "modified",
+		patch: "+x",
+	});
+
+	let workspace: string;
+
+	beforeAll(() => {
+		// A web app and an API service, each with its own manifest
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), "loxops-"));
+		for (const manifest of ["web/package.json", "services/api/pyproject.toml"]) {
+			fs.mkdirSync(path.dirname(path.join(workspace, manifest)), {
+				recursive: true,
+			});
+			fs.writeFileSync(path.join(workspace, manifest), "");
+		}
+	});
+
+	afterAll(() => {
+		fs.rmSync(workspace, { recursive: true, force: true });
+	});
+
+	const createPartitioner = (overrides: Partial<ReviewOptions> = {}) =>
+		new ProjectPartitionerService(
+			{ ...options, ...overrides },
+			workspace,
+			fileAnalyzer as unknown as FileAnalyzerService,
+		);
+
+	test("groups files by the nearest directory with a project manifest", () => {
+		const partitions = createPartitioner().partition([
+			file("web/src/app/page.tsx"),
+			file("services/api/app/main.py"),
+			file("web/next.config.js"),
+			file("README.md"),
+		]);
+
+		expect(
+			partitions.map(({ name, root, projectType, files }) => ({
+				name,
+				root,
+				projectType,
+				files: files.map((f) => f.filename),
+			})),
+		).toEqual([
+			{
+				name: "web",
+				root: "web",
+				projectType: "nextjs",
+				files: ["web/src/app/page.tsx", "web/next.config.js"],
+			},
+			{
+				name: "services/api",
+				root: "services/api",
+				projectType: "fastapi",
+				files: ["services/api/app/main.py"],
+			},
+			{
+				name: "(root)",
+				root: ".",
+				projectType: "fastapi",
+				files: ["README.md"],
+			},
+		]);
+	});
+
+	test("prefers configured projects and keeps their project type", () => {
+		const partitions = createPartitioner({
+			projects: [
+				{ name: "game", paths: ["web/src/**"], projectType: "unity" },
+			],
+		}).partition([file("web/src/app/page.tsx"), file("web/next.config.js")]);
+
+		expect(
+			partitions.map(({ name, root, projectType }) => ({
+				name,
+				root,
+				projectType,
+			})),
+		).toEqual([
+			{ name: "game", root: "web/src", projectType: "unity" },
+			{ name: "web", root: "web", projectType: "nextjs" },
+		]);
+	});
+});
@@ -0,0 +1,92 @@
+import type { ClaudeService } from "../../src/services/claude";
+import type { GitHubService } from "../../src/services/github";
+import { ThreadResolverService } from "../../src/services/thread-resolver";
+import type { ReviewThread } from "../../src/types";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ThreadResolverService", () => {
+	const thread = (id: string, diffHunk: string): ReviewThread => ({
+		id,
+		path: "src/load.ts",
+		line: 2,
+		commentId: 1,
+		body: "Handle invalid JSON",
+		diffHunk,
+		priority: "high",
+	});
+	const threads = [
+		thread("fixed", "@@ -1,2 +1,2 @@\n function load() {\n+\treturn JSON.parse(raw);"),
+		thread("open", "@@ -1,2 +1,3 @@\n function load() {\n+\tconst raw = read();"),
+		thread("removed", "@@ -1,2 +1,1 @@\n function load() {\n-\treturn parse(raw);"),
+	];
+
+	const githubService = {
+		getOpenLoxopsThreads: jest.fn(),
+		findFileContent: jest.fn(),
+		resolveReviewThread: jest.fn(),
+	};
+	const claudeService = { isConcernAddressed: jest.fn() };
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		githubService.getOpenLoxopsThreads.mockResolvedValue(threads);
+		githubService.findFileContent.mockResolvedValue(
+			"function load() {\n\tconst raw = read();\n\treturn safeParse(raw);\n}",
+		);
+	});
+
+	const createResolver = (mode: "code" | "claude") =>
+		new ThreadResolverService(
+			githubService as unknown as GitHubService,
+			claudeService as unknown as ClaudeService,
+			mode,
+		);
+
+	test("resolves threads whose commented line no longer exists", async () => {
+		const resolved = await createResolver("code").resolveFixedThreads(
+			1,
+			"abc",
+		);
+
+		expect(resolved).toBe(1);
+		expect(githubService.resolveReviewThread).toHaveBeenCalledWith(
+			1,
+			threads[0],
+			"abc",
+		);
+		expect(githubService.findFileContent).toHaveBeenCalledTimes(1);
+		expect(claudeService.isConcernAddressed).not.toHaveBeenCalled();
+	});
+
+	test("keeps threads open when their file cannot be fetched", async () => {
+		githubService.findFileContent.mockResolvedValue(undefined);
+
+		const resolved = await createResolver("code").resolveFixedThreads(
+			1,
+			"abc",
+		);
+
+		expect(resolved).toBe(0);
+		expect(githubService.resolveReviewThread).not.toHaveBeenCalled();
+	});
+
+	test("keeps threads open when Claude finds the concern unaddressed", async () => {
+		claudeService.isConcernAddressed.mockResolvedValue(false);
+
+		const resolved = await createResolver("claude").resolveFixedThreads(
+			1,
+			"abc",
+		);
+
+		expect(resolved).toBe(0);
+		expect(claudeService.isConcernAddressed).toHaveBeenCalledTimes(1);
+		expect(githubService.resolveReviewThread).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,79 @@
+import { getMessages } from "../../src/i18n";
+import { TokenBudgetService } from "../../src/services/token-budget";
+import type { ReviewContext } from "../../src/types";
+
+// Mock the core module to avoid actual logging in tests
+jest.mock("@actions/core", () => ({
+	info: jest.fn(),
+	warning: jest.fn(),
+	error: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("TokenBudgetService", () => {
+	// claude-2.0 has a 100k token context window
+	const service = new TokenBudgetService(
+		"claude-2.0",
+		4096,
+		getMessages("en"),
+	);
+	const render = (context: ReviewContext) =>
+		context.files
+			.map((file) => `${file.filename}\n${file.patch}\n${file.fullContent}`)
+			.join("\n");
+
+	// 2000 lines of 200 characters, about 100k tokens
+	const largeContent = Array.from(
+		{ length: 2000 },
+		(_, i) => `${i + 1}`.padEnd(200, "x"),
+	).join("\n");
+
+	const context: ReviewContext = {
+		pullRequestNumber: 1,
+		pullRequestTitle: "Test",
+		pullRequestBody: null,
+		repositoryName: "repo",
+		repositoryOwner: "owner",
+		branch: "feature",
+		baseRef: "main",
+		files: [
+			{
+				filename: "src/large.ts",
+				status: "modified",
+				patch: "@@ -1000,3 +1000,4 @@\n context\n+added\n context\n context",
+				fullContent: largeContent,
+			},
+		],
+		relatedFiles: { "src/large.ts": ["src/other.ts"] },
+	};
+
+	test("keeps a context that fits unchanged", () => {
+		const small: ReviewContext = {
+			...context,
+			files: [{ ...context.files[0], fullContent: "const a = 1;" }],
+		};
+
+		expect(service.fitContext(small, render)).toEqual(small);
+	});
+
+	test("reduces full content that does not fit to windows around hunks", () => {
+		const fitted = service.fitContext(context, render);
+		const content = fitted.files[0].fullContent ?? "";
+
+		expect(fitted.files[0].patch).toBe(context.files[0].patch);
+		expect(content).toContain("... lines 1-979 omitted ...");
+		expect(content).toContain("... lines 1024-2000 omitted ...");
+		expect(content.split("\n")).toHaveLength(46);
+		expect(fitted.relatedFiles).toEqual(context.relatedFiles);
+		// The original context is left untouched
+		expect(context.files[0].fullContent).toBe(largeContent);
+	});
+
+	test("truncates repository context to the remaining budget", () => {
+		const fitted = service.fitRepositoryContext(largeContent, "prompt");
+
+		expect(fitted).not.toBeNull();
+		expect(fitted?.length).toBeLessThan(largeContent.length);
+		expect(fitted).toMatch(/lines omitted to fit the context window/);
+	});
+});
@@ -0,0 +1,42 @@
+import { parseCommand } from "../../src/utils/command";
+
+describe("parseCommand", () => {
+	it("should parse commands and their arguments", () => {
+		expect(parseCommand("/loxops review")).toEqual({
+			name: "review",
+			paths: [],
+		});
+		expect(parseCommand("Please\n/loxops review src/** docs/*.md")).toEqual({
+			name: "review",
+			paths: ["src/**", "docs/*.md"],
+		});
+		expect(parseCommand("/loxops explain src/app.ts:42")).toEqual({
+			name: "explain",
+			path: "src/app.ts",
+			line: 42,
+		});
+		expect(parseCommand("/loxops ignore 1A2B3C4D")).toEqual({
+			name: "ignore",
+			fingerprint: "1a2b3c4d",
+		});
+		expect(parseCommand("/loxops ignore loxops:1a2b3c4d")).toEqual({
+			name: "ignore",
+			fingerprint: "1a2b3c4d",
+		});
+		expect(parseCommand("/loxops summary")).toEqual({ name: "summary" });
+	});
+
+	it("should fall back to help for unknown commands and invalid arguments", () => {
+		expect(parseCommand("/loxops")).toEqual({ name: "help" });
+		expect(parseCommand("/loxops deploy")).toEqual({ name: "help" });
+		expect(parseCommand("/loxops explain src/app.ts")).toEqual({
+			name: "help",
+		});
+		expect(parseCommand("/loxops ignore xyz")).toEqual({ name: "help" });
+	});
+
+	it("should ignore comments without a command", () => {
+		expect(parseCommand("Looks good, see /loxops docs")).toBeUndefined();
+		expect(parseCommand("/loxopsbot review")).toBeUndefined();
+	});
+});
@@ -0,0 +1,61 @@
+import {
+	annotatePatch,
+	findDiffLine,
+	findDiffRange,
+	parsePatch,
+} from "../../src/utils/diff";
+
+describe("diff utils", () => {
+	const patch = [
+		"@@ -10,4 +10,5 @@ function main() {",
+		" const a = 1;",
+		"-const b = 2;",
+		"+const b = 3;",
+		"+const c = 4;",
+		" return a + b;",
+		"\\ No newline at end of file",
+	].join("\n");
+
+	it("should number old and new lines of each hunk", () => {
+		const [hunk] = parsePatch(patch);
+
+		expect(hunk.oldStart).toBe(10);
+		expect(hunk.newLines).toBe(5);
+		expect(hunk.lines).toEqual([
+			{ type: "context", content: "const a = 1;", oldLine: 10, newLine: 10 },
+			{ type: "removed", content: "const b = 2;", oldLine: 11 },
+			{ type: "added", content: "const b = 3;", newLine: 11 },
+			{ type: "added", content: "const c = 4;", newLine: 12 },
+			{ type: "context", content: "return a + b;", oldLine: 12, newLine: 13 },
+		]);
+	});
+
+	it("should find lines on the side a comment targets", () => {
+		const hunks = parsePatch(patch);
+
+		expect(findDiffLine(hunks, 11)?.line.content).toBe("const b = 3;");
+		expect(findDiffLine(hunks, 11, "LEFT")?.line.content).toBe("const b = 2;");
+		expect(findDiffLine(hunks, 13, "LEFT")).toBeUndefined();
+		expect(findDiffLine(hunks, 14)).toBeUndefined();
+	});
+
+	it("should only accept ranges within one hunk", () => {
+		const hunks = parsePatch(
+			`${patch}\n@@ -30,2 +31,2 @@\n-old();\n+renamed();\n context();`,
+		);
+
+		expect(findDiffRange(hunks, 10, 13)).toBe(hunks[0]);
+		expect(findDiffRange(hunks, 10, 12, "LEFT")).toBe(hunks[0]);
+		expect(findDiffRange(hunks, 12, 31)).toBeUndefined();
+		expect(findDiffRange(hunks, 13, 10)).toBeUndefined();
+	});
+
+	it("should prefix diff lines with their line numbers", () => {
+		const lines = annotatePatch(patch).split("\n");
+
+		expect(lines[0]).toBe("@@ -10,4 +10,5 @@ function main() {");
+		expect(lines[2]).toBe("11    -const b = 2;");
+		expect(lines[3]).toBe("   11 +const b = 3;");
+		expect(lines[6]).toBe("\\ No newline at end of file");
+	});
+});
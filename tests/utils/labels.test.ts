@@ -0,0 +1,81 @@
+import type { ReviewContext, ReviewOptions } from "../../src/types";
+import {
+	deriveLabels,
+	getLabelChanges,
+	getManagedLabels,
+	getRiskLevel,
+} from "../../src/utils/labels";
+
+describe("labels", () => {
+	const options: ReviewOptions = {
+		projectType: "auto",
+		fileExtensions: [],
+		excludePatterns: [],
+		findRelatedFiles: false,
+		maxFiles: 10,
+		model: "claude-3-7-sonnet-latest",
+		useRepomix: false,
+		areaLabels: [
+			{ label: "area/server", paths: ["server/**"] },
+			{ label: "area/client", paths: ["client/**"] },
+		],
+		sensitivePaths: ["server/auth/**"],
+	};
+
+	it("should rate the risk from priorities, sensitive paths and change size", () => {
+		const high = [{ path: "a.ts", line: 1, body: "x", priority: "high" as const }];
+
+		expect(getRiskLevel(high, 10, true)).toBe("high");
+		expect(getRiskLevel(high, 10, false)).toBe("medium");
+		expect(getRiskLevel([], 800, false)).toBe("medium");
+		expect(getRiskLevel([], 10, false)).toBe("low");
+	});
+
+	it("should derive area labels from the changed files", () => {
+		const context = {
+			files: [
+				{
+					filename: "server/auth/login.ts",
+					status: "modified",
+					additions: 3,
+					deletions: 1,
+				},
+			],
+		} as ReviewContext;
+
+		expect(deriveLabels(context, { comments: [] }, options)).toEqual([
+			"area/server",
+			"risk/medium",
+		]);
+	});
+
+	it("should replace stale managed labels and keep other labels", () => {
+		expect(
+			getLabelChanges(
+				["area/client", "risk/high", "bug"],
+				["area/server", "risk/low"],
+				getManagedLabels(options),
+				false,
+			),
+		).toEqual({
+			add: ["area/server", "risk/low"],
+			remove: ["area/client", "risk/high"],
+		});
+	});
+
+	it("should keep earlier labels and only raise the risk after a partial review", () => {
+		const managed = getManagedLabels(options);
+
+		expect(
+			getLabelChanges(
+				["area/client", "risk/high"],
+				["area/server", "risk/low"],
+				managed,
+				true,
+			),
+		).toEqual({ add: ["area/server"], remove: [] });
+		expect(
+			getLabelChanges(["risk/low"], ["risk/medium"], managed, true),
+		).toEqual({ add: ["risk/medium"], remove: ["risk/low"] });
+	});
+});
@@ -0,0 +1,41 @@
+import type { ReviewComment } from "../../src/types";
+import {
+	countByPriority,
+	getHighestPriority,
+	getReviewEvent,
+} from "../../src/utils/severity";
+
+describe("severity utils", () => {
+	const comment = (priority?: ReviewComment["priority"]): ReviewComment => ({
+		path: "src/a.ts",
+		line: 1,
+		body: "Comment",
+		priority,
+	});
+
+	it("should count comments without a priority as low", () => {
+		const comments = [comment("critical"), comment(), comment("low")];
+
+		expect(countByPriority(comments)).toEqual({
+			critical: 1,
+			high: 0,
+			medium: 0,
+			low: 2,
+		});
+		expect(getHighestPriority(comments)).toBe("critical");
+		expect(getHighestPriority([])).toBeUndefined();
+	});
+
+	it("should map the highest priority to a review event", () => {
+		expect(getReviewEvent("comment", [comment("critical")])).toBe("COMMENT");
+		expect(getReviewEvent("request-changes", [comment("high")])).toBe(
+			"REQUEST_CHANGES",
+		);
+		expect(getReviewEvent("request-changes", [])).toBe("COMMENT");
+		expect(getReviewEvent("approve", [comment("low")])).toBe("APPROVE");
+		expect(getReviewEvent("approve", [comment("medium")])).toBe("COMMENT");
+		expect(getReviewEvent("request-changes", [{ priority: "critical" }])).toBe(
+			"REQUEST_CHANGES",
+		);
+	});
+});
@@ -0,0 +1,52 @@
+import { parsePatch } from "../../src/utils/diff";
+import { canApplySuggestion } from "../../src/utils/suggestion";
+
+describe("canApplySuggestion", () => {
+	const fileContent = [
+		"function total(items) {",
+		"\tlet sum = 0;",
+		"\tfor (const item of items) sum += item.price;",
+		"\treturn sum;",
+		"}",
+	].join("\n");
+	const hunks = parsePatch(
+		[
+			"@@ -1,4 +1,5 @@",
+			" function total(items) {",
+			"-\tlet sum;",
+			"+\tlet sum = 0;",
+			"+\tfor (const item of items) sum += item.price;",
+			" \treturn sum;",
+			" }",
+		].join("\n"),
+	);
+
+	it("should accept replacements of changed lines that keep brackets balanced", () => {
+		expect(
+			canApplySuggestion(
+				hunks,
+				fileContent,
+				2,
+				3,
+				"\treturn items.reduce((sum, item) => sum + item.price, 0);",
+			),
+		).toBe(true);
+	});
+
+	it("should reject replacements that unbalance brackets or repeat the original", () => {
+		expect(
+			canApplySuggestion(hunks, fileContent, 3, 3, "\tfor (const item of items {"),
+		).toBe(false);
+		expect(canApplySuggestion(hunks, fileContent, 2, 2, "\tlet sum = 0;")).toBe(
+			false,
+		);
+	});
+
+	it("should reject lines that differ from the file content", () => {
+		const staleContent = fileContent.replace("let sum = 0;", "let sum = 1;");
+
+		expect(
+			canApplySuggestion(hunks, staleContent, 2, 2, "\tconst sum = 0;"),
+		).toBe(false);
+	});
+});
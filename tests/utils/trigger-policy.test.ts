@@ -0,0 +1,83 @@
+import type { PullRequestTrigger, ReviewOptions } from "../../src/types";
+import { evaluateTriggerPolicy } from "../../src/utils/trigger-policy";
+
+describe("evaluateTriggerPolicy", () => {
+	const options: ReviewOptions = {
+		projectType: "auto",
+		fileExtensions: [],
+		excludePatterns: [],
+		findRelatedFiles: false,
+		maxFiles: 10,
+		model: "claude-3-7-sonnet-latest",
+		useRepomix: false,
+		skipDrafts: true,
+		skipLabels: ["no-ai-review"],
+		forceLabels: ["ai-review"],
+		skipAuthors: ["renovate[bot]"],
+		skipBots: true,
+		baseBranches: ["main", "release/**"],
+		skipHeadBranches: ["release-merge/**"],
+		maxChangedLines: 1000,
+	};
+	const pr: PullRequestTrigger = {
+		number: 1,
+		action: "opened",
+		draft: false,
+		labels: [],
+		author: "octocat",
+		isBot: false,
+		baseRef: "main",
+		headRef: "feature/login",
+		changedLines: 120,
+	};
+
+	it("should review pull requests that match no skip rule", () => {
+		expect(evaluateTriggerPolicy(pr, options)).toBeUndefined();
+		expect(
+			evaluateTriggerPolicy({ ...pr, baseRef: "release/2.0" }, options),
+		).toBeUndefined();
+	});
+
+	it("should match branch globs against the whole branch name", () => {
+		expect(
+			evaluateTriggerPolicy({ ...pr, baseRef: "hotfix/main" }, options),
+		).toEqual({ reason: "base-branch", detail: "hotfix/main" });
+		expect(
+			evaluateTriggerPolicy({ ...pr, headRef: "fix/release-merge/2.0" }, options),
+		).toBeUndefined();
+	});
+
+	it("should report the first rule that skips the pull request", () => {
+		expect(evaluateTriggerPolicy({ ...pr, draft: true }, options)).toEqual({
+			reason: "draft",
+			detail: "draft",
+		});
+		expect(
+			evaluateTriggerPolicy({ ...pr, labels: ["no-ai-review"] }, options),
+		).toEqual({ reason: "label", detail: "no-ai-review" });
+		expect(
+			evaluateTriggerPolicy(
+				{ ...pr, author: "dependabot[bot]", isBot: true },
+				options,
+			),
+		).toEqual({ reason: "bot", detail: "dependabot[bot]" });
+		expect(
+			evaluateTriggerPolicy({ ...pr, baseRef: "develop" }, options),
+		).toEqual({ reason: "base-branch", detail: "develop" });
+		expect(
+			evaluateTriggerPolicy({ ...pr, headRef: "release-merge/2.0" }, options),
+		).toEqual({ reason: "head-branch", detail: "release-merge/2.0" });
+		expect(
+			evaluateTriggerPolicy({ ...pr, changedLines: 4000 }, options),
+		).toEqual({ reason: "size", detail: "4000" });
+	});
+
+	it("should review pull requests with a force label regardless of other rules", () => {
+		expect(
+			evaluateTriggerPolicy(
+				{ ...pr, draft: true, labels: ["no-ai-review", "ai-review"] },
+				options,
+			),
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,48 @@
+import { getMessages } from "../../src/i18n";
+import type { FileChange } from "../../src/types";
+import {
+	formatWalkthrough,
+	insertWalkthrough,
+	removeWalkthrough,
+} from "../../src/utils/walkthrough";
+
+describe("walkthrough", () => {
+	it("should render a row for every changed file", () => {
+		const files: FileChange[] = [
+			{ filename: "src/app.ts", status: "modified", additions: 4, deletions: 2 },
+			{ filename: "src/old.ts", status: "removed", additions: 0, deletions: 9 },
+		];
+
+		const markdown = formatWalkthrough(
+			{
+				overview: "Moves parsing into the app.",
+				files: { "src/app.ts": "Parse input | validate" },
+				testing: "- Run the app",
+			},
+			files,
+			getMessages("en").walkthrough,
+		);
+
+		expect(markdown).toContain(
+			"| `src/app.ts` | Modified +4 −2 | Parse input \\| validate |",
+		);
+		expect(markdown).toContain("| `src/old.ts` | Removed +0 −9 |  |");
+		expect(markdown).toContain("### Testing notes\n\n- Run the app");
+	});
+
+	it("should keep the author's text and replace an earlier walkthrough", () => {
+		const first = insertWalkthrough("Fixes #12", "First");
+		expect(first).toBe(
+			"Fixes #12\n\n<!-- loxops:walkthrough -->\nFirst\n<!-- /loxops:walkthrough -->",
+		);
+
+		const second = insertWalkthrough(`${first}\n\nThanks`, "Second");
+		expect(second).toBe(
+			"Fixes #12\n\n<!-- loxops:walkthrough -->\nSecond\n<!-- /loxops:walkthrough -->\n\nThanks",
+		);
+		expect(removeWalkthrough(second)).toBe("Fixes #12\n\nThanks");
+		expect(insertWalkthrough(null, "Only")).toBe(
+			"<!-- loxops:walkthrough -->\nOnly\n<!-- /loxops:walkthrough -->",
+		);
+	});
+});